@@ -0,0 +1,16 @@
+import { computeStats, encodeBinaryData } from '@/lib/content'
+import { errorResponse, readContent, readRules, readUpload } from '@/lib/api'
+
+// POST a multipart form with `file` (and optionally `ruleset`, a built-in ruleset id); responds with the detected
+// content items and their counts. Image bytes are base64 encoded.
+export async function POST(request: Request) {
+  try {
+    const { file, form } = await readUpload(request)
+    const content = await readContent(file, readRules(form))
+    return new Response(JSON.stringify({ content, stats: computeStats(content) }, encodeBinaryData), {
+      headers: { 'Content-Type': 'application/json' },
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
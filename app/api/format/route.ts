@@ -0,0 +1,41 @@
+import { getDefaultTitle } from '@/lib/extract'
+import { getOutputFileName } from '@/lib/docx'
+import { exportDocument, getExportFormat } from '@/lib/export'
+import { errorResponse, readContent, readExportFormat, readFormatOptions, readRules, readText, readUpload } from '@/lib/api'
+
+// POST a multipart form with `file` plus the title page fields (`title`, `subtitle`,
+// `organization`, `author`, `version`, `issueDate`, `status`, `revisions`) and options (`ruleset`,
+// `profile`, `template`, `headingNumbers`, `figureCaptions`, `codeLanguageLabels`, `codeLineNumbers`,
+// `tableOfContents`, `tocDepth`, `header`, `footer`, `confidentiality`, `differentFirstPage`, `draftWatermark`,
+// `headerLogos`), plus optional `logo` and `clientLogo` image files. Responds with the formatted
+// document in `format`: docx (the default), pdf, html or markdown.
+// Without a title the document's own title, first heading or file name is used, as in batch mode.
+export async function POST(request: Request) {
+  try {
+    const { file, form } = await readUpload(request)
+    const format = readExportFormat(form)
+    const options = await readFormatOptions(form)
+    const content = await readContent(file, readRules(form))
+
+    const title = readText(form, 'title') || (await getDefaultTitle(file, content))
+    const data = await exportDocument(
+      format,
+      content,
+      title,
+      readText(form, 'subtitle'),
+      readText(form, 'organization') || 'TechTorch Inc.',
+      readText(form, 'author'),
+      options
+    )
+    const { extension, contentType } = getExportFormat(format)
+
+    return new Response(new Uint8Array(data), {
+      headers: {
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${getOutputFileName(title, extension)}"`,
+      },
+    })
+  } catch (err) {
+    return errorResponse(err)
+  }
+}
@@ -1,959 +1,1409 @@
 'use client'
 
-import { useState, useRef } from 'react'
-import {
-  Document,
-  Packer,
-  Paragraph,
-  TextRun,
-  Table,
-  TableRow,
-  TableCell,
-  HeadingLevel,
-  AlignmentType,
-  BorderStyle,
-  WidthType,
-  ShadingType,
-  PageBreak,
-  LevelFormat,
-  TableOfContents,
-  Footer,
-  Header,
-  PageNumber,
-  NumberFormat,
-} from 'docx'
-import mammoth from 'mammoth'
+import { useState, useRef, useEffect } from 'react'
+import { Packer } from 'docx'
 import { saveAs } from 'file-saver'
+import JSZip from 'jszip'
+import {
+  ContentItem,
+  MAX_LIST_DEPTH,
+  isListItem,
+  getItemText,
+  getItemSpans,
+  sliceRuns,
+  renumberLists,
+  Stats,
+  computeStats,
+} from '@/lib/content'
+import {
+  PatternRule,
+  DetectionRuleset,
+  BUILT_IN_RULESETS,
+  DEFAULT_RULESET,
+  createRulesetId,
+  compilePattern,
+  compileRuleset,
+  parseRuleset,
+  normalizeRuleset,
+} from '@/lib/rulesets'
+import { detectInputFormat, extractTextContent } from '@/lib/classifier'
+import { extractContent, extractSourceText, getDefaultTitle } from '@/lib/extract'
+import {
+  CodeLanguage,
+  CODE_LANGUAGE_LABELS,
+  normalizeCodeLanguage,
+  detectCodeLanguage,
+} from '@/lib/code-languages'
+import { repairHeadingLevels, findHeadingIssues } from '@/lib/headings'
+import { CalloutKind, CALLOUT_LABELS, CALLOUT_KINDS } from '@/lib/callouts'
+import {
+  StyleProfile,
+  LogoAlignment,
+  LOGO_ALIGNMENTS,
+  DEFAULT_STYLE_PROFILE,
+  BUILT_IN_PROFILES,
+  createProfileId,
+  parseStyleProfile,
+  normalizeStyleProfile,
+} from '@/lib/style-profiles'
+import {
+  FormatOptions,
+  DEFAULT_TOC_DEPTH,
+  createFormattedDocument,
+  getOutputFileName,
+} from '@/lib/docx'
+import { DocumentTemplate, BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from '@/lib/templates'
+import {
+  DocumentStatus,
+  DocumentVersion,
+  Revision,
+  DEFAULT_DOCUMENT_VERSION,
+  DOCUMENT_STATUS_LABELS,
+  toIsoDate,
+  normalizeDocumentVersion,
+} from '@/lib/revisions'
+import { ExportFormat, EXPORT_FORMATS, getExportFormat } from '@/lib/export'
+import { createHtmlDocument } from '@/lib/html'
+import { createMarkdownDocument } from '@/lib/markdown-export'
+import { createPdf } from '@/lib/pdf'
+import { Logo, DocumentLogos, LOGO_FILE_TYPES, MAX_LOGO_BYTES, readLogo, serializeLogos, parseLogos, toLogoDataUri } from '@/lib/logos'
 
 // ============================================================================
-// TECHTORCH FORMATTING STANDARDS
+// TECHTORCH FORMATTING STANDARDS - Saved style profiles (see lib/style-profiles)
 // ============================================================================
 
-const COLORS = {
-  HEADING1: '1F4E79',
-  HEADING2: '2E75B6',
-  HEADING3: '404040',
-  BODY: '000000',
-  SECONDARY: '666666',
-  CODE_TEXT: '2E2E2E',
-  CODE_BG: 'F5F5F5',
-  CODE_BORDER: 'BFBFBF',
-  CODE_ACCENT: '1F4E79',
-  TABLE_HEADER_BG: '1F4E79',
-  TABLE_BORDER: 'CCCCCC',
-  WHITE: 'FFFFFF',
+const STYLE_PROFILES_STORAGE_KEY = 'techtorch-formatter:style-profiles'
+const ACTIVE_PROFILE_STORAGE_KEY = 'techtorch-formatter:active-profile'
+
+// Saved profiles live in localStorage; unreadable entries are skipped rather than failing the page
+function loadSavedProfiles(): StyleProfile[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STYLE_PROFILES_STORAGE_KEY) || '[]')
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap(raw => {
+      try {
+        return [normalizeStyleProfile(raw)]
+      } catch {
+        return []
+      }
+    })
+  } catch {
+    return []
+  }
 }
 
-const SIZES = {
-  TITLE: 48,
-  SUBTITLE: 28,
-  HEADING1: 24,
-  HEADING2: 22,
-  HEADING3: 20,
-  BODY: 18,
-  CODE: 16,
+function storeSavedProfiles(profiles: StyleProfile[]) {
+  localStorage.setItem(STYLE_PROFILES_STORAGE_KEY, JSON.stringify(profiles))
 }
 
 // ============================================================================
-// INTELLIGENT CONTENT DETECTION - Pattern Recognition & Heuristics
+// CONTENT EXTRACTION - Uploaded files in, classified content out (see lib/classifier)
 // ============================================================================
 
-interface ContentItem {
-  type: 'heading1' | 'heading2' | 'heading3' | 'paragraph' | 'bullet' | 'numbered' | 'code_block' | 'sub_bullet'
-  text?: string
-  lines?: string[]
-  number?: number
-  confidence?: number // How confident we are in this classification
+const RULESETS_STORAGE_KEY = 'techtorch-formatter:rulesets'
+const ACTIVE_RULESET_STORAGE_KEY = 'techtorch-formatter:active-ruleset'
+
+// Saved rulesets live in localStorage next to the style profiles
+function loadSavedRulesets(): DetectionRuleset[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(RULESETS_STORAGE_KEY) || '[]')
+    if (!Array.isArray(stored)) return []
+    return stored.flatMap(raw => {
+      try {
+        return [normalizeRuleset(raw)]
+      } catch {
+        return []
+      }
+    })
+  } catch {
+    return []
+  }
 }
 
-// Header keywords that strongly indicate a section header
-const HEADER_KEYWORDS = [
-  'Introduction', 'Conclusion', 'Conclusions', 'Summary', 'Overview',
-  'Background', 'Methodology', 'Results', 'Discussion', 'Recommendations',
-  'Next Steps', 'Appendix', 'References', 'Glossary', 'Final Summary',
-  'Development Tools', 'Development tools', 'Major Focus Areas',
-  'Key Findings', 'Executive Summary', 'Scope', 'Objectives', 'Purpose',
-  'Requirements', 'Implementation', 'Architecture', 'Configuration',
-  'Troubleshooting', 'Best Practices', 'Limitations', 'Future Work',
-  'Acknowledgments', 'Prerequisites', 'Dependencies', 'Setup', 'Installation',
-  'Working Model', 'Initial Project Phase', 'Project Phase',
-]
+function storeSavedRulesets(rulesets: DetectionRuleset[]) {
+  localStorage.setItem(RULESETS_STORAGE_KEY, JSON.stringify(rulesets))
+}
 
-// Patterns that indicate the START of a list (next lines are likely bullets)
-const LIST_INTRO_PATTERNS = [
-  /the following[:\s]/i,
-  /as follows[:\s]/i,
-  /include[sd]?[:\s]/i,
-  /such as[:\s]/i,
-  /for example[:\s]/i,
-  /listed below[:\s]/i,
-  /steps? (are|were|is|was)[:\s]/i,
-  /challenges? (are|were|is|was|included)[:\s]/i,
-  /characteristics? (are|were|is|was|included)[:\s]/i,
-  /reasons? (are|were|is|was|included)[:\s]/i,
-  /benefits? (are|were|is|was|included)[:\s]/i,
-  /features? (are|were|is|was|included)[:\s]/i,
-  /requirements? (are|were|is|was|included)[:\s]/i,
-  /components? (are|were|is|was|included)[:\s]/i,
-  /:[:\s]*$/,  // Ends with colon
-]
+// ============================================================================
+// STRUCTURE REVIEW - Manual corrections before generation
+// ============================================================================
 
-// Patterns that indicate code/technical content
-const CODE_PATTERNS = [
-  /^(SELECT|FROM|WHERE|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP)\s/i,
-  /\b(System\.debug|Console\.log|print\(|println\()/,
-  /\b(try\s*\{|catch\s*\(|finally\s*\{|if\s*\(|else\s*\{|for\s*\(|while\s*\()/,
-  /\b(new\s+\w+\s*\(|\.get\w+\s*\(|\.set\w+\s*\()/,
-  /^\s*(Id|String|Integer|Boolean|List<|Map<|Set<|var|let|const)\s+\w+\s*=/,
-  /(__c|__r|__mdt|__e)\b/,  // Salesforce custom fields
-  /\b(Database\.|Schema\.|Apex|SOQL|SOSL)\b/i,
-  /^\s*\}\s*(catch|finally|else)?\s*[\{]?\s*$/,
-  /^\s*\/\/.*$/,  // Comments
-  /^\s*\/\*.*\*\/\s*$/,  // Block comments
-  /^\s*\*\s/,  // Javadoc style
-  /=>\s*\{/,  // Arrow functions
-  /\bfunction\s*\(/,
-  /\bclass\s+\w+/,
-  /\bimport\s+/,
-  /\bexport\s+(default\s+)?/,
-  /^\s*@\w+/,  // Decorators/annotations
-  /\bSavepoint\b|\brollback\b/i,
-  /\bDmlException\b|\bException\b/,
+// Types a reviewer can switch an item to (tables and images keep their type)
+const REVIEW_TYPES: { value: ContentItem['type']; label: string }[] = [
+  { value: 'heading1', label: 'Heading 1' },
+  { value: 'heading2', label: 'Heading 2' },
+  { value: 'heading3', label: 'Heading 3' },
+  { value: 'paragraph', label: 'Paragraph' },
+  { value: 'bullet', label: 'Bullet' },
+  { value: 'numbered', label: 'Numbered' },
+  { value: 'code_block', label: 'Code Block' },
+  { value: 'callout', label: 'Callout' },
 ]
 
-// Patterns for bullet-like content (even without bullet markers)
-const BULLET_CONTENT_PATTERNS = [
-  /^[A-Z][a-z]+ing\s/,  // Starts with gerund (e.g., "Identifying", "Processing")
-  /^[A-Z][a-z]+ed\s/,   // Starts with past tense
-  /^(How|What|When|Where|Why|Which)\s/i,  // Question words
-  /^(The|A|An)\s+\w+\s+(was|were|is|are|has|have)\s/,  // Passive constructions
-  /^(No|Missing|Incorrect|Invalid|Duplicate)\s/i,  // Status indicators
-  /^(Enable|Disable|Configure|Set|Get|Create|Delete|Update|Review)\s/i,  // Action verbs
-]
+const SOURCE_LABELS: Record<NonNullable<ContentItem['source']>, string> = {
+  structure: 'From styles',
+  heuristic: 'Detected',
+  manual: 'Edited',
+}
 
-// Check if text looks like a header based on multiple signals
-function analyzeHeaderProbability(text: string, prevText: string | null, nextText: string | null): number {
-  let score = 0
-  const trimmed = text.trim()
-  
-  // Length check - headers are usually short
-  if (trimmed.length < 80) score += 15
-  if (trimmed.length < 50) score += 10
-  if (trimmed.length > 150) score -= 30
-  
-  // Numbered section pattern (strongest signal)
-  if (/^\d+\.\d+\.\d+\s+[A-Z]/.test(trimmed)) return 95  // Definitely H3
-  if (/^\d+\.\d+\s+[A-Z]/.test(trimmed)) return 95       // Definitely H2
-  if (/^\d+\.\s+[A-Z]/.test(trimmed)) return 95          // Definitely H1
+function isStructuralItem(item: ContentItem): boolean {
+  return item.type === 'table' || item.type === 'image'
+}
+
+// Manual corrections are treated as certain
+function changeItemType(content: ContentItem[], index: number, type: ContentItem['type']): ContentItem[] {
+  const item = content[index]
+  if (item.type === type || isStructuralItem(item)) return content
   
-  // Keyword match
-  for (const keyword of HEADER_KEYWORDS) {
-    if (trimmed === keyword) return 90
-    if (trimmed.startsWith(keyword + ':')) return 85
-    if (trimmed.startsWith(keyword + ' ')) score += 20
-    if (trimmed.toLowerCase().includes(keyword.toLowerCase())) score += 10
+  let updated: ContentItem
+  if (type === 'code_block') {
+    const lines = getItemText(item).split('\n')
+    updated = { type, lines, language: detectCodeLanguage(lines), confidence: 100, source: 'manual' }
+  } else if (item.type === 'code_block') {
+    const text = (item.lines || []).map(l => l.trim()).filter(l => l).join(' ')
+    updated = { type, text, callout: type === 'callout' ? 'note' : undefined, confidence: 100, source: 'manual' }
+  } else {
+    updated = {
+      ...item,
+      type,
+      depth: isListItem({ type }) ? item.depth : undefined,
+      callout: type === 'callout' ? item.callout || 'note' : undefined,
+      confidence: 100,
+      source: 'manual',
+    }
   }
   
-  // Title case pattern (Most Words Capitalized)
-  const words = trimmed.split(/\s+/)
-  const capitalizedWords = words.filter(w => /^[A-Z]/.test(w))
-  if (words.length >= 2 && capitalizedWords.length >= words.length * 0.7) score += 15
-  
-  // No ending punctuation (headers usually don't end with period)
-  if (!trimmed.endsWith('.') && !trimmed.endsWith(',')) score += 10
-  if (trimmed.endsWith('.')) score -= 15
-  
-  // Previous line ends with colon or is empty (common before headers)
-  if (prevText === null || prevText.trim() === '') score += 10
-  
-  // Next line is much longer (body text follows header)
-  if (nextText && nextText.length > trimmed.length * 2) score += 10
+  return renumberLists(content.map((c, i) => (i === index ? updated : c)))
+}
+
+// Indent or outdent a list item; it can sit at most one level below the item before it
+function changeItemDepth(content: ContentItem[], index: number, delta: number): ContentItem[] {
+  const item = content[index]
+  if (!isListItem(item)) return content
   
-  // Contains colon mid-text (like "Screen 1: Selection")
-  if (/^[\w\s]+:\s*[\w\s]+$/.test(trimmed) && trimmed.length < 60) score += 20
+  const previous = content[index - 1]
+  const maxDepth = previous && isListItem(previous) ? Math.min((previous.depth || 0) + 1, MAX_LIST_DEPTH) : 0
+  const depth = Math.max(0, Math.min(maxDepth, (item.depth || 0) + delta))
+  if (depth === (item.depth || 0)) return content
   
-  // All caps (sometimes used for headers)
-  if (trimmed === trimmed.toUpperCase() && trimmed.length > 3 && trimmed.length < 50) score += 15
+  return renumberLists(content.map((c, i) => (i === index ? { ...c, depth: depth || undefined, source: 'manual' as const } : c)))
+}
+
+function setItemLanguage(content: ContentItem[], index: number, language: string): ContentItem[] {
+  return content.map((c, i) => (i === index ? { ...c, language: language || undefined } : c))
+}
+
+function setItemCallout(content: ContentItem[], index: number, callout: CalloutKind): ContentItem[] {
+  return content.map((c, i) => (i === index ? { ...c, callout, source: 'manual' as const } : c))
+}
+
+// Inline formatting only survives while the text is unchanged
+function updateItemText(content: ContentItem[], index: number, text: string): ContentItem[] {
+  const item = content[index]
+  if (getItemText(item) === text) return content
   
-  return Math.min(score, 100)
+  const updated: ContentItem = item.type === 'code_block'
+    ? { ...item, lines: text.split('\n'), confidence: 100 }
+    : { ...item, text, runs: undefined, confidence: 100 }
+  return content.map((c, i) => (i === index ? updated : c))
 }
 
-// Check if text is likely part of a code block
-function analyzeCodeProbability(text: string, context: string[]): number {
-  let score = 0
-  const trimmed = text.trim()
+// Merge an item with the one after it, keeping the first item's type
+function mergeWithNext(content: ContentItem[], index: number): ContentItem[] {
+  const item = content[index]
+  const next = content[index + 1]
+  if (!next || isStructuralItem(item) || isStructuralItem(next)) return content
   
-  // Direct pattern matches
-  for (const pattern of CODE_PATTERNS) {
-    if (pattern.test(trimmed)) score += 30
+  let merged: ContentItem
+  if (item.type === 'code_block') {
+    merged = { ...item, lines: [...(item.lines || []), ...getItemText(next).split('\n')], confidence: 100 }
+  } else if (next.type === 'code_block') {
+    const nextText = (next.lines || []).map(l => l.trim()).filter(l => l).join(' ')
+    merged = { ...item, text: `${item.text || ''} ${nextText}`, runs: [...getItemSpans(item), { text: ` ${nextText}` }], confidence: 100 }
+  } else {
+    merged = { ...item, text: `${item.text || ''} ${next.text || ''}`, runs: [...getItemSpans(item), { text: ' ' }, ...getItemSpans(next)], confidence: 100 }
   }
   
-  // Indentation (code is often indented)
-  if (text.startsWith('    ') || text.startsWith('\t')) score += 20
-  
-  // Contains typical code characters
-  if (/[{}\[\]();]/.test(trimmed)) score += 15
-  if (/\b\w+\.\w+\(/.test(trimmed)) score += 15  // Method calls
-  if (/=\s*['"]/.test(trimmed)) score += 10  // String assignment
-  if (/=\s*\d+/.test(trimmed)) score += 10  // Number assignment
-  
-  // Salesforce specific
-  if (/blng__|SBQQ__|npsp__/.test(trimmed)) score += 25
-  
-  // Very short lines that look like code fragments
-  if (trimmed.length < 30 && /^[\w_]+[,;]?$/.test(trimmed)) score += 15
-  
-  // Check context - if surrounded by code-like lines
-  const codeNeighbors = context.filter(c => CODE_PATTERNS.some(p => p.test(c))).length
-  if (codeNeighbors >= 2) score += 20
-  
-  return Math.min(score, 100)
+  return renumberLists([...content.slice(0, index), merged, ...content.slice(index + 2)])
 }
 
-// Check if text should be a bullet point
-function analyzeBulletProbability(text: string, prevText: string | null, isAfterListIntro: boolean): number {
-  let score = 0
-  const trimmed = text.trim()
+// Split text items at line breaks (or sentences when there are none) and code blocks at blank lines
+function splitItem(content: ContentItem[], index: number): ContentItem[] {
+  const item = content[index]
+  if (isStructuralItem(item)) return content
   
-  // Explicit bullet markers
-  if (/^[•\-\*\u2022\u2023\u25E6\u2043\u2219]\s/.test(trimmed)) return 95
+  let parts: ContentItem[]
+  if (item.type === 'code_block') {
+    const blocks: string[][] = [[]]
+    for (const line of item.lines || []) {
+      if (line.trim() === '') {
+        if (blocks[blocks.length - 1].length > 0) blocks.push([])
+      } else {
+        blocks[blocks.length - 1].push(line)
+      }
+    }
+    parts = blocks.filter(b => b.length > 0).map(lines => ({ type: 'code_block', lines, language: item.language, confidence: 100 }))
+  } else {
+    const text = item.text || ''
+    const pieces = (text.includes('\n') ? text.split(/\n+/) : text.split(/(?<=[.!?])\s+/)).map(p => p.trim()).filter(p => p)
+    
+    // Keep each piece's inline formatting by slicing the runs at the piece's offset
+    let searchFrom = 0
+    parts = pieces.map(piece => {
+      const start = text.indexOf(piece, searchFrom)
+      searchFrom = start + piece.length
+      return { ...item, text: piece, runs: item.runs ? sliceRuns(item.runs, start, start + piece.length) : undefined, confidence: 100 }
+    })
+  }
   
-  // If previous line introduced a list
-  if (isAfterListIntro) score += 40
+  if (parts.length < 2) return content
+  return renumberLists([...content.slice(0, index), ...parts, ...content.slice(index + 1)])
+}
+
+function removeItem(content: ContentItem[], index: number): ContentItem[] {
+  return renumberLists(content.filter((_, i) => i !== index))
+}
+
+function describeStructuralItem(item: ContentItem): string {
+  if (item.type === 'table') {
+    const rows = item.rows || []
+    const headerRows = rows.filter(r => r.header).length
+    return `Table: ${rows.length} rows${headerRows ? ` (${headerRows} header)` : ''}`
+  }
+  const image = item.image
+  if (!image) return 'Image'
+  return `Image: ${image.width}\u00D7${image.height}${image.altText ? ` \u2013 ${image.altText}` : ''}${item.caption ? ` \u2013 ${item.caption}` : ''}`
+}
+
+function StructureReview({
+  content,
+  onChange,
+}: {
+  content: ContentItem[]
+  onChange: (content: ContentItem[]) => void
+}) {
+  const headingIssues = findHeadingIssues(content)
   
-  // Short, self-contained statement
-  if (trimmed.length < 100 && trimmed.length > 10) score += 10
+  return (
+    <div className="review-box">
+      <p className="review-title"><strong>Review Detected Structure</strong></p>
+      <p className="review-hint">
+        Correct any misdetected items before generating. To split an item, put line breaks where it should
+        break (blank lines for code blocks); without line breaks, text is split into sentences.
+      </p>
+      {headingIssues.length > 0 && (
+        <div className="heading-issues">
+          <p className="review-summary"><strong>Heading problems</strong></p>
+          <ul>
+            {headingIssues.map(issue => (
+              <li key={`${issue.index}-${issue.message}`}>
+                {issue.message}: &ldquo;{getItemText(content[issue.index])}&rdquo;
+              </li>
+            ))}
+          </ul>
+          {headingIssues.some(issue => issue.repairable) && (
+            <div className="review-actions">
+              <button type="button" onClick={() => onChange(repairHeadingLevels(content))}>
+                Repair Heading Levels
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="review-list">
+        {content.map((item, index) => {
+          const confidence = Math.max(0, Math.min(100, Math.round(item.confidence ?? 100)))
+          const text = getItemText(item)
+          const next = content[index + 1]
+          const structural = isStructuralItem(item)
+          const depth = isListItem(item) ? item.depth || 0 : 0
+          const previous = content[index - 1]
+          
+          return (
+            <div
+              key={index}
+              className={`review-item ${item.source === 'heuristic' && confidence < 60 ? 'low-confidence' : ''}`}
+              style={depth ? { marginLeft: Math.min(depth, 4) * 16 } : undefined}
+            >
+              <div className="review-item-header">
+                {structural ? (
+                  <span className="review-type-fixed">{item.type === 'table' ? 'Table' : 'Image'}</span>
+                ) : (
+                  <select
+                    className="review-type"
+                    value={item.type}
+                    onChange={(e) => onChange(changeItemType(content, index, e.target.value as ContentItem['type']))}
+                  >
+                    {REVIEW_TYPES.map(t => (
+                      <option key={t.value} value={t.value}>{t.label}</option>
+                    ))}
+                  </select>
+                )}
+                {item.type === 'code_block' && (
+                  <select
+                    className="review-type"
+                    value={item.language || ''}
+                    onChange={(e) => onChange(setItemLanguage(content, index, e.target.value))}
+                    title="Code language"
+                  >
+                    <option value="">Plain text</option>
+                    {item.language && !normalizeCodeLanguage(item.language) && (
+                      <option value={item.language}>{item.language}</option>
+                    )}
+                    {(Object.keys(CODE_LANGUAGE_LABELS) as CodeLanguage[]).map(language => (
+                      <option key={language} value={language}>{CODE_LANGUAGE_LABELS[language]}</option>
+                    ))}
+                  </select>
+                )}
+                {item.type === 'callout' && (
+                  <select
+                    className="review-type"
+                    value={item.callout || 'note'}
+                    onChange={(e) => onChange(setItemCallout(content, index, e.target.value as CalloutKind))}
+                    title="Callout kind"
+                  >
+                    {CALLOUT_KINDS.map(kind => (
+                      <option key={kind} value={kind}>{CALLOUT_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                )}
+                <span className="confidence-badge" title="Detection confidence">{confidence}%</span>
+                {item.source && <span className={`source-badge ${item.source}`}>{SOURCE_LABELS[item.source]}</span>}
+                <div className="review-actions">
+                  {isListItem(item) && (
+                    <>
+                      <button
+                        type="button"
+                        onClick={() => onChange(changeItemDepth(content, index, -1))}
+                        disabled={depth === 0}
+                        title="Outdent"
+                      >
+                        ←
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => onChange(changeItemDepth(content, index, 1))}
+                        disabled={!previous || !isListItem(previous) || depth > (previous.depth || 0) || depth >= MAX_LIST_DEPTH}
+                        title="Indent"
+                      >
+                        →
+                      </button>
+                    </>
+                  )}
+                  <button
+                    type="button"
+                    onClick={() => onChange(mergeWithNext(content, index))}
+                    disabled={structural || !next || isStructuralItem(next)}
+                    title="Merge with the next item"
+                  >
+                    Merge ↓
+                  </button>
+                  <button
+                    type="button"
+                    onClick={() => onChange(splitItem(content, index))}
+                    disabled={structural}
+                  >
+                    Split
+                  </button>
+                  <button type="button" onClick={() => onChange(removeItem(content, index))}>
+                    Remove
+                  </button>
+                </div>
+              </div>
+              {structural ? (
+                <p className="review-summary">{describeStructuralItem(item)}</p>
+              ) : (
+                <textarea
+                  className={`input review-text ${item.type === 'code_block' ? 'code' : ''}`}
+                  rows={Math.min(8, Math.max(1, text.split('\n').length, Math.ceil(text.length / 80)))}
+                  value={text}
+                  onChange={(e) => onChange(updateItemText(content, index, e.target.value))}
+                />
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// ============================================================================
+// LIVE PREVIEW - The formatted document next to its source
+// ============================================================================
+
+type PreviewPane = 'source' | 'preview'
+
+// Rendered with the HTML exporter, so it follows the active profile and options; page breaks
+// and the Word table of contents' page numbers only appear in the real document
+function DocumentPreview({
+  content,
+  sourceName,
+  sourceText,
+  docTitle,
+  subtitle,
+  organization,
+  author,
+  options,
+}: {
+  content: ContentItem[]
+  sourceName: string
+  sourceText: string
+  docTitle: string
+  subtitle: string
+  organization: string
+  author: string
+  options: FormatOptions
+}) {
+  const [open, setOpen] = useState(false)
+  const sourceRef = useRef<HTMLPreElement>(null)
+  const frameRef = useRef<HTMLIFrameElement>(null)
+  const ignoreScroll = useRef<PreviewPane | null>(null)
   
-  // Starts with action verb or gerund (common in bullets)
-  for (const pattern of BULLET_CONTENT_PATTERNS) {
-    if (pattern.test(trimmed)) score += 15
+  // The other pane follows by scroll proportion; its own scroll event is skipped so they don't chase each other
+  const syncScroll = (from: PreviewPane) => {
+    if (ignoreScroll.current === from) {
+      ignoreScroll.current = null
+      return
+    }
+    const source = sourceRef.current
+    const page = frameRef.current?.contentDocument?.scrollingElement
+    if (!source || !page) return
+    
+    const [scrolled, target] = from === 'source' ? [source, page] : [page, source]
+    const range = scrolled.scrollHeight - scrolled.clientHeight
+    const top = Math.round((range > 0 ? scrolled.scrollTop / range : 0) * (target.scrollHeight - target.clientHeight))
+    if (Math.abs(target.scrollTop - top) < 1) return
+    ignoreScroll.current = from === 'source' ? 'preview' : 'source'
+    target.scrollTop = top
   }
   
-  // Doesn't start with "The" or "This" (more likely body text)
-  if (/^(The|This|That|These|Those|It)\s/.test(trimmed) && trimmed.length > 80) score -= 20
-  
-  // Multiple short lines in sequence are likely bullets
-  if (prevText && prevText.length < 100 && trimmed.length < 100) score += 10
+  // Every edit reloads the frame, so it picks up the source pane's position again
+  const handleFrameLoad = () => {
+    frameRef.current?.contentWindow?.addEventListener('scroll', () => syncScroll('preview'))
+    syncScroll('source')
+  }
   
-  // Ends without period but has content
-  if (!trimmed.endsWith('.') && trimmed.length > 20) score += 5
+  const html = open ? createHtmlDocument(content, docTitle || 'Untitled Document', subtitle, organization || 'TechTorch Inc.', author, options) : ''
   
-  return Math.min(score, 100)
+  return (
+    <details className="preview-box" onToggle={(e) => setOpen(e.currentTarget.open)}>
+      <summary>Preview Formatted Document</summary>
+      {open && (
+        <div className="preview-panes">
+          <div className="preview-pane">
+            <p className="preview-pane-label">Source: {sourceName}</p>
+            <pre ref={sourceRef} className="preview-source" onScroll={() => syncScroll('source')}>
+              {sourceText}
+            </pre>
+          </div>
+          <div className="preview-pane">
+            <p className="preview-pane-label">Formatted with {options.profile?.name || DEFAULT_STYLE_PROFILE.name}</p>
+            <iframe
+              ref={frameRef}
+              className="preview-frame"
+              title="Formatted document preview"
+              sandbox="allow-same-origin"
+              srcDoc={html}
+              onLoad={handleFrameLoad}
+            />
+          </div>
+        </div>
+      )}
+    </details>
+  )
 }
 
-// Determine heading level based on numbering pattern
-function getHeadingLevel(text: string): 'heading1' | 'heading2' | 'heading3' | null {
-  const trimmed = text.trim()
-  
-  if (/^\d+\.\d+\.\d+\s/.test(trimmed)) return 'heading3'
-  if (/^\d+\.\d+\s/.test(trimmed)) return 'heading2'
-  if (/^\d+\.\s/.test(trimmed)) return 'heading1'
-  
-  // Check for letter-based numbering
-  if (/^[a-z]\)\s/i.test(trimmed)) return 'heading3'
-  if (/^[ivxIVX]+\.\s/.test(trimmed)) return 'heading2'
-  
-  return null
+// ============================================================================
+// REVISION HISTORY - Version, status and change log shown after the title page
+// ============================================================================
+
+function RevisionHistoryEditor({
+  documentVersion,
+  author,
+  onChange,
+}: {
+  documentVersion: DocumentVersion
+  author: string
+  onChange: (documentVersion: DocumentVersion) => void
+}) {
+  const { revisions } = documentVersion
+  const setRevisions = (updated: Revision[]) => onChange({ ...documentVersion, revisions: updated })
+  const update = (index: number, changes: Partial<Revision>) => {
+    setRevisions(revisions.map((revision, i) => (i === index ? { ...revision, ...changes } : revision)))
+  }
+
+  // A new entry starts as the version being issued, ready for its change summary
+  const addRevision = () => setRevisions([
+    ...revisions,
+    { version: documentVersion.version, date: documentVersion.issueDate || toIsoDate(new Date()), author, changes: '' },
+  ])
+
+  return (
+    <div className="form-group">
+      <label className="label">Revision History</label>
+      <div className="pattern-list">
+        {revisions.map((revision, index) => (
+          <div key={index} className="pattern-row">
+            <input
+              className="input revision-version"
+              value={revision.version}
+              placeholder="Version"
+              onChange={(e) => update(index, { version: e.target.value })}
+            />
+            <input
+              className="input revision-date"
+              type="date"
+              value={revision.date}
+              onChange={(e) => update(index, { date: e.target.value })}
+            />
+            <input
+              className="input revision-author"
+              value={revision.author}
+              placeholder="Author"
+              onChange={(e) => update(index, { author: e.target.value })}
+            />
+            <input
+              className="input revision-changes"
+              value={revision.changes}
+              placeholder="Summary of changes"
+              onChange={(e) => update(index, { changes: e.target.value })}
+            />
+            <button type="button" onClick={() => setRevisions(revisions.filter((_, i) => i !== index))} title="Remove revision">
+              ✕
+            </button>
+          </div>
+        ))}
+        <button type="button" className="pattern-add" onClick={addRevision}>
+          + Add revision
+        </button>
+      </div>
+      <p className="profile-hint">
+        {revisions.length > 0
+          ? 'Listed oldest first in a table after the title page'
+          : 'Templates with a revision history list this version as the initial issue'}
+      </p>
+    </div>
+  )
 }
 
-// Main content extraction with intelligent classification
-async function extractContent(file: File): Promise<ContentItem[]> {
-  const arrayBuffer = await file.arrayBuffer()
-  
-  // Try HTML conversion first for better structure
-  let lines: string[] = []
+// ============================================================================
+// LOGOS - TechTorch and client logos, kept in the browser between sessions
+// ============================================================================
+
+const LOGOS_STORAGE_KEY = 'techtorch-formatter:logos'
+
+function loadSavedLogos(): DocumentLogos {
   try {
-    const htmlResult = await mammoth.convertToHtml({ arrayBuffer })
-    const html = htmlResult.value
-    lines = parseHtmlToLines(html)
+    return parseLogos(localStorage.getItem(LOGOS_STORAGE_KEY) || '{}')
   } catch {
-    // Fallback to raw text
-    const textResult = await mammoth.extractRawText({ arrayBuffer })
-    lines = textResult.value.split('\n')
+    return {}
   }
-  
-  // Filter empty lines but track where they were (for context)
-  const nonEmptyLines = lines.map((line, i) => ({ text: line.trim(), originalIndex: i, wasEmpty: line.trim() === '' }))
-    .filter(l => l.text !== '')
-  
-  const content: ContentItem[] = []
-  let i = 0
-  let numberedListCounter = 0
-  let lastListIntroIndex = -10  // Track when we saw a list introduction
-  
-  while (i < nonEmptyLines.length) {
-    const current = nonEmptyLines[i]
-    const text = current.text
-    const prev = i > 0 ? nonEmptyLines[i - 1].text : null
-    const next = i < nonEmptyLines.length - 1 ? nonEmptyLines[i + 1].text : null
-    
-    // Get context (surrounding lines)
-    const context = nonEmptyLines.slice(Math.max(0, i - 3), Math.min(nonEmptyLines.length, i + 4)).map(l => l.text)
-    
-    // Check if this line introduces a list
-    const isListIntro = LIST_INTRO_PATTERNS.some(p => p.test(text))
-    if (isListIntro) lastListIntroIndex = i
-    
-    const isAfterListIntro = i - lastListIntroIndex <= 5 && i > lastListIntroIndex
-    
-    // === CODE BLOCK DETECTION ===
-    const codeProb = analyzeCodeProbability(text, context)
-    if (codeProb >= 60) {
-      // Collect consecutive code lines
-      const codeLines: string[] = [text]
-      let j = i + 1
-      while (j < nonEmptyLines.length) {
-        const nextLine = nonEmptyLines[j].text
-        const nextCodeProb = analyzeCodeProbability(nextLine, context)
-        // Continue if it's code OR if it's a short line between code lines
-        if (nextCodeProb >= 40 || (nextLine.length < 30 && j + 1 < nonEmptyLines.length && analyzeCodeProbability(nonEmptyLines[j + 1].text, context) >= 50)) {
-          codeLines.push(nextLine)
-          j++
-        } else {
-          break
-        }
-      }
-      
-      if (codeLines.length >= 2 || codeProb >= 80) {
-        content.push({ type: 'code_block', lines: codeLines, confidence: codeProb })
-        i = j
-        numberedListCounter = 0
-        continue
-      }
-    }
-    
-    // === HEADER DETECTION ===
-    const headerProb = analyzeHeaderProbability(text, prev, next)
-    const headingLevel = getHeadingLevel(text)
-    
-    if (headingLevel) {
-      content.push({ type: headingLevel, text, confidence: 95 })
-      i++
-      numberedListCounter = 0
-      continue
-    }
-    
-    if (headerProb >= 70) {
-      // Determine level based on context and patterns
-      let level: 'heading1' | 'heading2' | 'heading3' = 'heading1'
-      
-      // If it's a sub-topic keyword, make it H2
-      const subTopicKeywords = ['Example', 'Screen', 'Step', 'Phase', 'Part', 'Section', 'Case', 'Scenario']
-      if (subTopicKeywords.some(k => text.startsWith(k))) level = 'heading2'
-      
-      // If very short and after another header, might be H3
-      if (text.length < 30 && prev && analyzeHeaderProbability(prev, null, text) >= 50) level = 'heading3'
-      
-      content.push({ type: level, text, confidence: headerProb })
-      i++
-      numberedListCounter = 0
-      continue
-    }
-    
-    // === NUMBERED LIST DETECTION ===
-    const numberedMatch = text.match(/^(\d+)[.)]\s+(.+)/)
-    if (numberedMatch) {
-      const num = parseInt(numberedMatch[1])
-      // Check if this continues a sequence or starts a new one
-      if (num === 1 || num === numberedListCounter + 1) {
-        numberedListCounter = num
-        content.push({ type: 'numbered', text: numberedMatch[2], number: num })
-        i++
-        continue
-      }
-    }
-    
-    // === BULLET DETECTION ===
-    const bulletProb = analyzeBulletProbability(text, prev, isAfterListIntro)
-    
-    // Check for explicit bullet markers
-    const bulletMatch = text.match(/^[•\-\*\u2022]\s*(.+)/)
-    if (bulletMatch) {
-      content.push({ type: 'bullet', text: bulletMatch[1], confidence: 95 })
-      i++
-      continue
-    }
-    
-    // Check for sub-bullets (indented or with different markers)
-    const subBulletMatch = text.match(/^[\u25E6\u2023\u2043\u2219\-]\s*(.+)/)
-    if (subBulletMatch && content.length > 0 && content[content.length - 1].type === 'bullet') {
-      content.push({ type: 'sub_bullet', text: subBulletMatch[1], confidence: 90 })
-      i++
-      continue
-    }
-    
-    // Infer bullet from context
-    if (bulletProb >= 60 && text.length < 120) {
-      content.push({ type: 'bullet', text, confidence: bulletProb })
-      i++
-      continue
+}
+
+// Throws when browser storage is full
+function storeSavedLogos(logos: DocumentLogos) {
+  localStorage.setItem(LOGOS_STORAGE_KEY, serializeLogos(logos))
+}
+
+// Word shows a picture where it can't draw SVG; draw one from the logo at up to twice its size
+async function rasterizeSvg(svg: Uint8Array, width: number, height: number): Promise<Uint8Array> {
+  const url = URL.createObjectURL(new Blob([new TextDecoder().decode(svg)], { type: 'image/svg+xml' }))
+  try {
+    const image = new Image()
+    await new Promise((resolve, reject) => {
+      image.onload = resolve
+      image.onerror = () => reject(new Error('The SVG logo could not be drawn'))
+      image.src = url
+    })
+    const scale = Math.min(2, 1600 / Math.max(width, height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(width * scale))
+    canvas.height = Math.max(1, Math.round(height * scale))
+    canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height)
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'))
+    if (!blob) throw new Error('The SVG logo could not be drawn')
+    return new Uint8Array(await blob.arrayBuffer())
+  } finally {
+    URL.revokeObjectURL(url)
+  }
+}
+
+function LogoPicker({
+  label,
+  logo,
+  onChange,
+  onError,
+}: {
+  label: string
+  logo: Logo | undefined
+  onChange: (logo: Logo | undefined) => void
+  onError: (message: string) => void
+}) {
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const handleFile = async (file: File) => {
+    try {
+      if (file.size > MAX_LOGO_BYTES) throw new Error(`${file.name} is too large for a logo (1 MB at most)`)
+      const read = readLogo(new Uint8Array(await file.arrayBuffer()), file.name)
+      if (read.svg) read.image.data = await rasterizeSvg(read.svg, read.image.width, read.image.height)
+      onChange(read)
+    } catch (err) {
+      onError(err instanceof Error ? err.message : 'The logo could not be read')
     }
-    
-    // === DEFAULT: PARAGRAPH ===
-    // Reset numbered counter if we hit a paragraph
-    numberedListCounter = 0
-    content.push({ type: 'paragraph', text, confidence: 100 - headerProb - bulletProb })
-    i++
   }
-  
-  // Post-processing: Fix sequences that should be bullets
-  return postProcessContent(content)
+
+  return (
+    <div className="form-group half">
+      <label className="label">{label}</label>
+      <div className="profile-toolbar">
+        <div className="logo-preview">
+          {logo ? <img src={toLogoDataUri(logo)} alt={label} /> : 'None'}
+        </div>
+        <button type="button" onClick={() => inputRef.current?.click()}>
+          {logo ? 'Replace' : 'Upload'}
+        </button>
+        {logo && (
+          <button type="button" onClick={() => onChange(undefined)}>
+            Remove
+          </button>
+        )}
+        <input
+          ref={inputRef}
+          type="file"
+          accept={LOGO_FILE_TYPES}
+          hidden
+          onChange={(e) => {
+            const selected = e.target.files?.[0]
+            e.target.value = ''
+            if (selected) handleFile(selected)
+          }}
+        />
+      </div>
+    </div>
+  )
 }
 
-// Parse HTML to extract lines with some structure awareness
-function parseHtmlToLines(html: string): string[] {
-  const lines: string[] = []
+// ============================================================================
+// STYLE PROFILE SETTINGS
+// ============================================================================
+
+const PROFILE_COLOR_FIELDS: { key: keyof StyleProfile['colors']; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'heading1', label: 'Heading 1' },
+  { key: 'heading2', label: 'Heading 2' },
+  { key: 'heading3', label: 'Heading 3' },
+  { key: 'body', label: 'Body' },
+  { key: 'secondary', label: 'Secondary' },
+  { key: 'link', label: 'Links' },
+  { key: 'tableHeaderBg', label: 'Table Header' },
+  { key: 'tableHeaderText', label: 'Table Header Text' },
+  { key: 'tableBorder', label: 'Table Border' },
+]
+
+const PROFILE_CODE_COLOR_FIELDS: { key: Exclude<keyof StyleProfile['codeBlock'], 'accentWidth'>; label: string }[] = [
+  { key: 'text', label: 'Code Text' },
+  { key: 'background', label: 'Code Background' },
+  { key: 'border', label: 'Code Border' },
+  { key: 'accent', label: 'Code Accent' },
+  { key: 'keyword', label: 'Code Keywords' },
+  { key: 'string', label: 'Code Strings' },
+  { key: 'comment', label: 'Code Comments' },
+  { key: 'number', label: 'Code Numbers' },
+]
+
+const PROFILE_SIZE_FIELDS: { key: keyof StyleProfile['sizes']; label: string }[] = [
+  { key: 'title', label: 'Title' },
+  { key: 'subtitle', label: 'Subtitle' },
+  { key: 'heading1', label: 'Heading 1' },
+  { key: 'heading2', label: 'Heading 2' },
+  { key: 'heading3', label: 'Heading 3' },
+  { key: 'body', label: 'Body' },
+  { key: 'code', label: 'Code' },
+  { key: 'footer', label: 'Footer' },
+]
+
+const PROFILE_MARGIN_FIELDS: { key: keyof StyleProfile['margins']; label: string }[] = [
+  { key: 'top', label: 'Top' },
+  { key: 'right', label: 'Right' },
+  { key: 'bottom', label: 'Bottom' },
+  { key: 'left', label: 'Left' },
+]
+
+const LOGO_ALIGNMENT_LABELS: Record<LogoAlignment, string> = {
+  left: 'Left',
+  center: 'Centered',
+  right: 'Right',
+  spread: 'TechTorch left, client right',
+}
+
+function StyleProfilePanel({
+  profile,
+  savedProfiles,
+  onProfileChange,
+  onSavedProfilesChange,
+  onError,
+}: {
+  profile: StyleProfile
+  savedProfiles: StyleProfile[]
+  onProfileChange: (profile: StyleProfile) => void
+  onSavedProfilesChange: (profiles: StyleProfile[]) => void
+  onError: (message: string) => void
+}) {
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const allProfiles = [...BUILT_IN_PROFILES, ...savedProfiles]
+  const stored = allProfiles.find(p => p.id === profile.id)
+  const isBuiltIn = BUILT_IN_PROFILES.some(p => p.id === profile.id)
+  const isModified = !stored || JSON.stringify(stored) !== JSON.stringify(profile)
   
-  // Simple regex-based extraction (works in browser without DOM)
-  // Remove scripts and styles
-  let cleaned = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
-  cleaned = cleaned.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+  const update = (changes: Partial<StyleProfile>) => onProfileChange({ ...profile, ...changes })
   
-  // Convert block elements to newlines
-  cleaned = cleaned.replace(/<\/(p|div|h[1-6]|li|tr|br)[^>]*>/gi, '\n')
-  cleaned = cleaned.replace(/<(p|div|h[1-6]|li|tr|br)[^>]*>/gi, '\n')
+  const handleSelect = (id: string) => {
+    const selected = allProfiles.find(p => p.id === id)
+    if (selected) onProfileChange(selected)
+  }
   
-  // Handle list items specially - add bullet marker
-  cleaned = cleaned.replace(/<li[^>]*>/gi, '\n• ')
+  const handleNew = () => {
+    onProfileChange({ ...DEFAULT_STYLE_PROFILE, id: createProfileId(), name: 'New Profile' })
+  }
   
-  // Remove remaining tags
-  cleaned = cleaned.replace(/<[^>]+>/g, '')
+  // Built-in profiles are read-only, so saving one stores an editable copy
+  const handleSave = () => {
+    const toSave = isBuiltIn ? { ...profile, id: createProfileId(), name: `${profile.name} (Custom)` } : profile
+    const exists = savedProfiles.some(p => p.id === toSave.id)
+    onSavedProfilesChange(exists ? savedProfiles.map(p => (p.id === toSave.id ? toSave : p)) : [...savedProfiles, toSave])
+    onProfileChange(toSave)
+  }
   
-  // Decode HTML entities
-  cleaned = cleaned.replace(/&amp;/g, '&')
-  cleaned = cleaned.replace(/&lt;/g, '<')
-  cleaned = cleaned.replace(/&gt;/g, '>')
-  cleaned = cleaned.replace(/&quot;/g, '"')
-  cleaned = cleaned.replace(/&#39;/g, "'")
-  cleaned = cleaned.replace(/&nbsp;/g, ' ')
+  const handleDelete = () => {
+    onSavedProfilesChange(savedProfiles.filter(p => p.id !== profile.id))
+    onProfileChange(DEFAULT_STYLE_PROFILE)
+  }
   
-  // Split into lines
-  return cleaned.split('\n').map(l => l.trim()).filter(l => l)
-}
-
-// Post-process to fix common patterns
-function postProcessContent(content: ContentItem[]): ContentItem[] {
-  const result: ContentItem[] = []
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(profile, null, 2)], { type: 'application/json' })
+    const cleanName = profile.name.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_')
+    saveAs(blob, `${cleanName}.style.json`)
+  }
   
-  for (let i = 0; i < content.length; i++) {
-    const item = content[i]
-    const prev = i > 0 ? result[result.length - 1] : null
-    const next = i < content.length - 1 ? content[i + 1] : null
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    e.target.value = ''
+    if (!selectedFile) return
     
-    // If we have multiple short paragraphs in sequence after a list intro, convert to bullets
-    if (item.type === 'paragraph' && item.text && item.text.length < 100) {
-      // Check if previous item ends with colon or is a list intro
-      if (prev && prev.text && LIST_INTRO_PATTERNS.some(p => p.test(prev.text || ''))) {
-        result.push({ ...item, type: 'bullet' })
-        continue
-      }
-      
-      // Check if surrounded by bullets
-      if (prev?.type === 'bullet' && next?.type === 'bullet') {
-        result.push({ ...item, type: 'bullet' })
-        continue
-      }
+    try {
+      let imported = parseStyleProfile(await selectedFile.text())
+      // Re-importing a saved profile replaces it; built-in ids are never overwritten
+      if (BUILT_IN_PROFILES.some(p => p.id === imported.id)) imported = { ...imported, id: createProfileId() }
+      const exists = savedProfiles.some(p => p.id === imported.id)
+      onSavedProfilesChange(exists ? savedProfiles.map(p => (p.id === imported.id ? imported : p)) : [...savedProfiles, imported])
+      onProfileChange(imported)
+    } catch (err) {
+      onError(`Could not import style profile: ${err instanceof Error ? err.message : 'Unknown error'}`)
     }
-    
-    // If a "paragraph" is very short and follows a heading, might be a subtitle - keep as paragraph
-    // but we handle this in document creation
-    
-    result.push(item)
   }
   
-  return result
+  return (
+    <div className="profile-box">
+      <label className="label">Style Profile</label>
+      <div className="profile-toolbar">
+        <select className="input profile-select" value={profile.id} onChange={(e) => handleSelect(e.target.value)}>
+          {BUILT_IN_PROFILES.map(p => (
+            <option key={p.id} value={p.id}>{p.name} (built-in)</option>
+          ))}
+          {savedProfiles.map(p => (
+            <option key={p.id} value={p.id}>{p.name}</option>
+          ))}
+          {!stored && <option value={profile.id}>{profile.name} (unsaved)</option>}
+        </select>
+        <button type="button" onClick={handleNew}>New</button>
+        <button type="button" onClick={handleSave} disabled={!isModified && !isBuiltIn}>Save</button>
+        <button type="button" onClick={handleDelete} disabled={isBuiltIn || !stored}>Delete</button>
+        <button type="button" onClick={() => importInputRef.current?.click()}>Import</button>
+        <button type="button" onClick={handleExport}>Export</button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+      {isModified && stored && <p className="profile-hint">Unsaved changes{isBuiltIn ? ' – saving creates a copy' : ''}</p>}
+      
+      <details className="profile-editor">
+        <summary>Customize style</summary>
+        
+        <div className="profile-section">
+          <label className="profile-field">
+            <span>Profile Name</span>
+            <input className="input" value={profile.name} onChange={(e) => update({ name: e.target.value })} />
+          </label>
+        </div>
+        
+        <p className="profile-section-title">Fonts</p>
+        <div className="profile-grid">
+          {(['heading', 'body', 'code'] as const).map(key => (
+            <label key={key} className="profile-field">
+              <span>{key[0].toUpperCase() + key.slice(1)}</span>
+              <input
+                className="input"
+                value={profile.fonts[key]}
+                onChange={(e) => update({ fonts: { ...profile.fonts, [key]: e.target.value } })}
+              />
+            </label>
+          ))}
+        </div>
+        
+        <p className="profile-section-title">Colors</p>
+        <div className="profile-grid">
+          {PROFILE_COLOR_FIELDS.map(({ key, label }) => (
+            <label key={key} className="profile-field color">
+              <input
+                type="color"
+                value={`#${profile.colors[key]}`}
+                onChange={(e) => update({ colors: { ...profile.colors, [key]: e.target.value.slice(1).toUpperCase() } })}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+          {PROFILE_CODE_COLOR_FIELDS.map(({ key, label }) => (
+            <label key={key} className="profile-field color">
+              <input
+                type="color"
+                value={`#${profile.codeBlock[key]}`}
+                onChange={(e) => update({ codeBlock: { ...profile.codeBlock, [key]: e.target.value.slice(1).toUpperCase() } })}
+              />
+              <span>{label}</span>
+            </label>
+          ))}
+          {CALLOUT_KINDS.map(kind => (
+            <label key={kind} className="profile-field color">
+              <input
+                type="color"
+                value={`#${profile.callouts[kind]}`}
+                onChange={(e) => update({ callouts: { ...profile.callouts, [kind]: e.target.value.slice(1).toUpperCase() } })}
+              />
+              <span>{CALLOUT_LABELS[kind]} Callout</span>
+            </label>
+          ))}
+        </div>
+        
+        <p className="profile-section-title">Font Sizes (pt)</p>
+        <div className="profile-grid">
+          {PROFILE_SIZE_FIELDS.map(({ key, label }) => (
+            <label key={key} className="profile-field">
+              <span>{label}</span>
+              <input
+                className="input"
+                type="number"
+                min={4}
+                step={0.5}
+                value={profile.sizes[key] / 2}
+                onChange={(e) => update({ sizes: { ...profile.sizes, [key]: Math.round(Number(e.target.value) * 2) } })}
+              />
+            </label>
+          ))}
+        </div>
+        
+        <p className="profile-section-title">Page Margins (in)</p>
+        <div className="profile-grid">
+          {PROFILE_MARGIN_FIELDS.map(({ key, label }) => (
+            <label key={key} className="profile-field">
+              <span>{label}</span>
+              <input
+                className="input"
+                type="number"
+                min={0}
+                step={0.05}
+                value={Math.round((profile.margins[key] / 1440) * 100) / 100}
+                onChange={(e) => update({ margins: { ...profile.margins, [key]: Math.round(Number(e.target.value) * 1440) } })}
+              />
+            </label>
+          ))}
+        </div>
+        
+        <p className="profile-section-title">Logos</p>
+        <div className="profile-grid">
+          <label className="profile-field">
+            <span>Title Page Height (in)</span>
+            <input
+              className="input"
+              type="number"
+              min={0.1}
+              step={0.05}
+              value={Math.round((profile.logos.height / 1440) * 100) / 100}
+              onChange={(e) => update({ logos: { ...profile.logos, height: Math.round(Number(e.target.value) * 1440) } })}
+            />
+          </label>
+          <label className="profile-field">
+            <span>Header Height (in)</span>
+            <input
+              className="input"
+              type="number"
+              min={0.1}
+              step={0.05}
+              value={Math.round((profile.logos.headerHeight / 1440) * 100) / 100}
+              onChange={(e) => update({ logos: { ...profile.logos, headerHeight: Math.round(Number(e.target.value) * 1440) } })}
+            />
+          </label>
+          <label className="profile-field">
+            <span>Title Page Alignment</span>
+            <select
+              className="input"
+              value={profile.logos.alignment}
+              onChange={(e) => update({ logos: { ...profile.logos, alignment: e.target.value as LogoAlignment } })}
+            >
+              {LOGO_ALIGNMENTS.map(alignment => (
+                <option key={alignment} value={alignment}>{LOGO_ALIGNMENT_LABELS[alignment]}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+        
+        <p className="profile-section-title">Bullets &amp; Code Blocks</p>
+        <div className="profile-grid">
+          {[0, 1].map(level => (
+            <label key={level} className="profile-field">
+              <span>Level {level + 1} Bullet</span>
+              <input
+                className="input"
+                maxLength={2}
+                value={profile.bullets[level] || ''}
+                onChange={(e) => {
+                  const bullets = [...profile.bullets]
+                  bullets[level] = e.target.value
+                  update({ bullets })
+                }}
+              />
+            </label>
+          ))}
+          <label className="profile-field">
+            <span>Code Accent Width (1/8 pt)</span>
+            <input
+              className="input"
+              type="number"
+              min={0}
+              max={96}
+              value={profile.codeBlock.accentWidth}
+              onChange={(e) => update({ codeBlock: { ...profile.codeBlock, accentWidth: Math.round(Number(e.target.value)) } })}
+            />
+          </label>
+        </div>
+        <p className="profile-hint">Paragraph spacing can be adjusted by exporting the profile and editing its JSON.</p>
+      </details>
+    </div>
+  )
 }
 
 // ============================================================================
-// DOCUMENT CREATION
+// DETECTION RULESET SETTINGS
 // ============================================================================
 
-function createCodeBlockTable(lines: string[]): Table {
-  const tableBorder = { style: BorderStyle.SINGLE, size: 1, color: COLORS.CODE_BORDER }
-  const accentBorder = { style: BorderStyle.SINGLE, size: 12, color: COLORS.CODE_ACCENT }
-  const noBorder = { style: BorderStyle.NIL, size: 0, color: COLORS.WHITE }
-  
-  return new Table({
-    columnWidths: [9360],
-    rows: lines.map((line, index) => 
-      new TableRow({
-        children: [
-          new TableCell({
-            width: { size: 9360, type: WidthType.DXA },
-            shading: { fill: COLORS.CODE_BG, type: ShadingType.CLEAR },
-            borders: {
-              left: accentBorder,
-              right: tableBorder,
-              top: index === 0 ? tableBorder : noBorder,
-              bottom: index === lines.length - 1 ? tableBorder : noBorder,
-            },
-            children: [
-              new Paragraph({
-                spacing: { before: 20, after: 20 },
-                children: [
-                  new TextRun({
-                    text: line,
-                    font: 'Consolas',
-                    size: SIZES.CODE,
-                    color: COLORS.CODE_TEXT,
-                  }),
-                ],
-              }),
-            ],
-          }),
-        ],
-      })
-    ),
-  })
+const RULESET_KEYWORD_FIELDS: { key: 'headerKeywords' | 'subheadingKeywords'; label: string }[] = [
+  { key: 'headerKeywords', label: 'Header Keywords' },
+  { key: 'subheadingKeywords', label: 'Subheading Keywords' },
+]
+
+const RULESET_SCORE_FIELDS: { key: keyof DetectionRuleset['headerKeywordScores']; label: string }[] = [
+  { key: 'exact', label: 'Whole Line' },
+  { key: 'colon', label: 'Keyword + Colon' },
+  { key: 'prefix', label: 'Starts With' },
+  { key: 'mention', label: 'Mentions' },
+]
+
+function hasInvalidPatterns(ruleset: DetectionRuleset): boolean {
+  return [...ruleset.listIntroPatterns, ...ruleset.codePatterns, ...ruleset.bulletPatterns].some(rule => !compilePattern(rule))
 }
 
-function createFormattedDocument(
-  content: ContentItem[],
-  docTitle: string,
-  subtitle: string,
-  organization: string,
-  author: string
-): Document {
-  const children: (Paragraph | Table)[] = []
-  
-  // ---- TITLE PAGE ----
-  for (let i = 0; i < 6; i++) {
-    children.push(new Paragraph({ children: [] }))
-  }
-  
-  // Document title
-  children.push(
-    new Paragraph({
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 240 },
-      children: [
-        new TextRun({
-          text: docTitle,
-          bold: true,
-          font: 'Aptos',
-          size: SIZES.TITLE,
-          color: COLORS.BODY,
-        }),
-      ],
-    })
-  )
-  
-  // Subtitle
-  if (subtitle) {
-    children.push(
-      new Paragraph({
-        alignment: AlignmentType.CENTER,
-        spacing: { after: 240 },
-        children: [
-          new TextRun({
-            text: subtitle,
-            font: 'Aptos',
-            size: SIZES.SUBTITLE,
-            color: COLORS.BODY,
-          }),
-        ],
-      })
-    )
+// One row per pattern; weighted lists also edit the score each match adds
+function PatternRuleList<T extends PatternRule & { weight?: number }>({
+  rules,
+  newRule,
+  onChange,
+}: {
+  rules: T[]
+  newRule: T
+  onChange: (rules: T[]) => void
+}) {
+  const weighted = newRule.weight !== undefined
+  const update = (index: number, changes: Partial<PatternRule & { weight: number }>) => {
+    onChange(rules.map((rule, i) => (i === index ? { ...rule, ...changes } : rule)))
   }
   
-  // Organization
-  children.push(
-    new Paragraph({
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 120 },
-      children: [
-        new TextRun({
-          text: organization,
-          font: 'Aptos',
-          size: 24,
-          italics: true,
-          color: COLORS.BODY,
-        }),
-      ],
-    })
+  return (
+    <div className="pattern-list">
+      {rules.map((rule, index) => (
+        <div key={index} className="pattern-row">
+          <input
+            className={`input pattern-input ${compilePattern(rule) ? '' : 'invalid'}`}
+            value={rule.pattern}
+            placeholder="Regular expression"
+            onChange={(e) => update(index, { pattern: e.target.value })}
+          />
+          <input
+            className="input pattern-flags"
+            value={rule.flags || ''}
+            placeholder="flags"
+            title="Regular expression flags, e.g. i for case-insensitive"
+            onChange={(e) => update(index, { flags: e.target.value || undefined })}
+          />
+          {weighted && (
+            <input
+              className="input pattern-weight"
+              type="number"
+              value={rule.weight}
+              title="Score added when the pattern matches"
+              onChange={(e) => update(index, { weight: Math.round(Number(e.target.value)) })}
+            />
+          )}
+          <button type="button" onClick={() => onChange(rules.filter((_, i) => i !== index))} title="Remove pattern">
+            ✕
+          </button>
+        </div>
+      ))}
+      <button type="button" className="pattern-add" onClick={() => onChange([...rules, newRule])}>
+        + Add pattern
+      </button>
+    </div>
   )
+}
+
+function RulesetPanel({
+  ruleset,
+  savedRulesets,
+  onRulesetChange,
+  onSavedRulesetsChange,
+  onError,
+}: {
+  ruleset: DetectionRuleset
+  savedRulesets: DetectionRuleset[]
+  onRulesetChange: (ruleset: DetectionRuleset) => void
+  onSavedRulesetsChange: (rulesets: DetectionRuleset[]) => void
+  onError: (message: string) => void
+}) {
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const allRulesets = [...BUILT_IN_RULESETS, ...savedRulesets]
+  const stored = allRulesets.find(r => r.id === ruleset.id)
+  const isBuiltIn = BUILT_IN_RULESETS.some(r => r.id === ruleset.id)
+  const isModified = !stored || JSON.stringify(stored) !== JSON.stringify(ruleset)
+  const invalid = hasInvalidPatterns(ruleset)
   
-  // Date
-  const currentDate = new Date().toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
-  children.push(
-    new Paragraph({
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 120 },
-      children: [
-        new TextRun({
-          text: `As of ${currentDate}`,
-          font: 'Aptos',
-          size: 20,
-          color: COLORS.BODY,
-        }),
-      ],
-    })
-  )
+  const update = (changes: Partial<DetectionRuleset>) => onRulesetChange({ ...ruleset, ...changes })
   
-  // Version with author
-  const versionText = author ? `Version 1.0 (${author})` : 'Version 1.0'
-  children.push(
-    new Paragraph({
-      alignment: AlignmentType.CENTER,
-      children: [
-        new TextRun({
-          text: versionText,
-          font: 'Aptos',
-          size: SIZES.BODY,
-          color: COLORS.SECONDARY,
-        }),
-      ],
-    })
-  )
+  const handleSelect = (id: string) => {
+    const selected = allRulesets.find(r => r.id === id)
+    if (selected) onRulesetChange(selected)
+  }
   
-  // Page break after title
-  children.push(new Paragraph({ children: [new PageBreak()] }))
+  // New rulesets start from the current one, since most edits are additions
+  const handleNew = () => {
+    onRulesetChange({ ...ruleset, id: createRulesetId(), name: 'New Ruleset' })
+  }
   
-  // ---- TABLE OF CONTENTS ----
-  children.push(
-    new Paragraph({
-      alignment: AlignmentType.CENTER,
-      spacing: { after: 300 },
-      children: [
-        new TextRun({
-          text: 'Table of Contents',
-          bold: true,
-          font: 'Aptos',
-          size: SIZES.SUBTITLE,
-          color: COLORS.HEADING1,
-        }),
-      ],
-    })
-  )
+  // Built-in rulesets are read-only, so saving one stores an editable copy
+  const handleSave = () => {
+    const cleaned = { ...ruleset, headerKeywords: ruleset.headerKeywords.filter(k => k.trim()), subheadingKeywords: ruleset.subheadingKeywords.filter(k => k.trim()) }
+    const toSave = isBuiltIn ? { ...cleaned, id: createRulesetId(), name: `${ruleset.name} (Custom)` } : cleaned
+    const exists = savedRulesets.some(r => r.id === toSave.id)
+    onSavedRulesetsChange(exists ? savedRulesets.map(r => (r.id === toSave.id ? toSave : r)) : [...savedRulesets, toSave])
+    onRulesetChange(toSave)
+  }
   
-  children.push(
-    new TableOfContents("Table of Contents", {
-      hyperlink: true,
-      headingStyleRange: "1-3",
-    })
-  )
+  const handleDelete = () => {
+    onSavedRulesetsChange(savedRulesets.filter(r => r.id !== ruleset.id))
+    onRulesetChange(DEFAULT_RULESET)
+  }
   
-  children.push(new Paragraph({ children: [new PageBreak()] }))
+  const handleExport = () => {
+    const blob = new Blob([JSON.stringify(ruleset, null, 2)], { type: 'application/json' })
+    const cleanName = ruleset.name.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_')
+    saveAs(blob, `${cleanName}.rules.json`)
+  }
   
-  // ---- MAIN CONTENT ----
-  let lastType: string | null = null
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selectedFile = e.target.files?.[0]
+    e.target.value = ''
+    if (!selectedFile) return
+    
+    try {
+      let imported = parseRuleset(await selectedFile.text())
+      if (BUILT_IN_RULESETS.some(r => r.id === imported.id)) imported = { ...imported, id: createRulesetId() }
+      const exists = savedRulesets.some(r => r.id === imported.id)
+      onSavedRulesetsChange(exists ? savedRulesets.map(r => (r.id === imported.id ? imported : r)) : [...savedRulesets, imported])
+      onRulesetChange(imported)
+    } catch (err) {
+      onError(`Could not import ruleset: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
   
-  for (const item of content) {
-    switch (item.type) {
-      case 'heading1':
-        // Add extra space before H1 if coming from body content
-        if (lastType && lastType !== 'heading1') {
-          children.push(new Paragraph({ spacing: { before: 200 }, children: [] }))
-        }
-        children.push(
-          new Paragraph({
-            heading: HeadingLevel.HEADING_1,
-            spacing: { before: 300, after: 120 },
-            children: [
-              new TextRun({
-                text: item.text || '',
-                bold: true,
-                font: 'Aptos',
-                size: SIZES.HEADING1,
-                color: COLORS.HEADING1,
-              }),
-            ],
-          })
-        )
-        break
-        
-      case 'heading2':
-        children.push(
-          new Paragraph({
-            heading: HeadingLevel.HEADING_2,
-            spacing: { before: 240, after: 100 },
-            children: [
-              new TextRun({
-                text: item.text || '',
-                bold: true,
-                font: 'Aptos',
-                size: SIZES.HEADING2,
-                color: COLORS.HEADING2,
-              }),
-            ],
-          })
-        )
-        break
-        
-      case 'heading3':
-        children.push(
-          new Paragraph({
-            heading: HeadingLevel.HEADING_3,
-            spacing: { before: 200, after: 80 },
-            children: [
-              new TextRun({
-                text: item.text || '',
-                bold: true,
-                font: 'Aptos',
-                size: SIZES.HEADING3,
-                color: COLORS.HEADING3,
-              }),
-            ],
-          })
-        )
-        break
+  return (
+    <div className="profile-box">
+      <label className="label">Detection Rules</label>
+      <div className="profile-toolbar">
+        <select className="input profile-select" value={ruleset.id} onChange={(e) => handleSelect(e.target.value)}>
+          {BUILT_IN_RULESETS.map(r => (
+            <option key={r.id} value={r.id}>{r.name} (built-in)</option>
+          ))}
+          {savedRulesets.map(r => (
+            <option key={r.id} value={r.id}>{r.name}</option>
+          ))}
+          {!stored && <option value={ruleset.id}>{ruleset.name} (unsaved)</option>}
+        </select>
+        <button type="button" onClick={handleNew}>New</button>
+        <button type="button" onClick={handleSave} disabled={invalid || (!isModified && !isBuiltIn)}>Save</button>
+        <button type="button" onClick={handleDelete} disabled={isBuiltIn || !stored}>Delete</button>
+        <button type="button" onClick={() => importInputRef.current?.click()}>Import</button>
+        <button type="button" onClick={handleExport}>Export</button>
+        <input ref={importInputRef} type="file" accept=".json,application/json" onChange={handleImport} className="hidden" />
+      </div>
+      {invalid
+        ? <p className="profile-hint">Fix the highlighted patterns before saving; until then they are ignored</p>
+        : isModified && stored && <p className="profile-hint">Unsaved changes{isBuiltIn ? ' – saving creates a copy' : ''}</p>}
+      
+      <details className="profile-editor">
+        <summary>Customize detection rules</summary>
         
-      case 'paragraph':
-        children.push(
-          new Paragraph({
-            spacing: { after: 160 },
-            children: [
-              new TextRun({
-                text: item.text || '',
-                font: 'Aptos',
-                size: SIZES.BODY,
-                color: COLORS.BODY,
-              }),
-            ],
-          })
-        )
-        break
+        <div className="profile-section">
+          <label className="profile-field">
+            <span>Ruleset Name</span>
+            <input className="input" value={ruleset.name} onChange={(e) => update({ name: e.target.value })} />
+          </label>
+        </div>
         
-      case 'bullet':
-        children.push(
-          new Paragraph({
-            bullet: { level: 0 },
-            spacing: { after: 80 },
-            indent: { left: 720, hanging: 360 },
-            children: [
-              new TextRun({
-                text: item.text || '',
-                font: 'Aptos',
-                size: SIZES.BODY,
-                color: COLORS.BODY,
-              }),
-            ],
-          })
-        )
-        break
+        <p className="profile-section-title">Headers</p>
+        <div className="profile-grid">
+          {RULESET_KEYWORD_FIELDS.map(({ key, label }) => (
+            <label key={key} className="profile-field">
+              <span>{label} (one per line)</span>
+              <textarea
+                className="input rules-text"
+                rows={6}
+                value={ruleset[key].join('\n')}
+                onChange={(e) => update({ [key]: e.target.value.split('\n') })}
+              />
+            </label>
+          ))}
+        </div>
+        <div className="profile-grid">
+          {RULESET_SCORE_FIELDS.map(({ key, label }) => (
+            <label key={key} className="profile-field">
+              <span>{label} Score</span>
+              <input
+                className="input"
+                type="number"
+                value={ruleset.headerKeywordScores[key]}
+                onChange={(e) => update({ headerKeywordScores: { ...ruleset.headerKeywordScores, [key]: Math.round(Number(e.target.value)) } })}
+              />
+            </label>
+          ))}
+        </div>
         
-      case 'sub_bullet':
-        children.push(
-          new Paragraph({
-            bullet: { level: 1 },
-            spacing: { after: 60 },
-            indent: { left: 1080, hanging: 360 },
-            children: [
-              new TextRun({
-                text: item.text || '',
-                font: 'Aptos',
-                size: SIZES.BODY,
-                color: COLORS.BODY,
-              }),
-            ],
-          })
-        )
-        break
+        <p className="profile-section-title">List Introductions</p>
+        <PatternRuleList
+          rules={ruleset.listIntroPatterns}
+          newRule={{ pattern: '', flags: 'i' }}
+          onChange={(listIntroPatterns) => update({ listIntroPatterns })}
+        />
         
-      case 'numbered':
-        children.push(
-          new Paragraph({
-            spacing: { after: 80 },
-            indent: { left: 720, hanging: 360 },
-            children: [
-              new TextRun({
-                text: `${item.number}. `,
-                bold: true,
-                font: 'Aptos',
-                size: SIZES.BODY,
-                color: COLORS.BODY,
-              }),
-              new TextRun({
-                text: item.text || '',
-                font: 'Aptos',
-                size: SIZES.BODY,
-                color: COLORS.BODY,
-              }),
-            ],
-          })
-        )
-        break
+        <p className="profile-section-title">Code Patterns</p>
+        <PatternRuleList
+          rules={ruleset.codePatterns}
+          newRule={{ pattern: '', weight: 30 }}
+          onChange={(codePatterns) => update({ codePatterns })}
+        />
         
-      case 'code_block':
-        if (item.lines && item.lines.length > 0) {
-          children.push(new Paragraph({ spacing: { before: 120, after: 60 }, children: [] }))
-          children.push(createCodeBlockTable(item.lines))
-          children.push(new Paragraph({ spacing: { before: 60, after: 120 }, children: [] }))
-        }
-        break
+        <p className="profile-section-title">Bullet Patterns</p>
+        <PatternRuleList
+          rules={ruleset.bulletPatterns}
+          newRule={{ pattern: '', weight: 15 }}
+          onChange={(bulletPatterns) => update({ bulletPatterns })}
+        />
+        <p className="profile-hint">
+          A line scoring 60 or more is treated as code or a bullet. Changes apply the next time a document is analyzed.
+        </p>
+      </details>
+    </div>
+  )
+}
+
+// ============================================================================
+// BATCH FORMATTING - Many documents into one zip
+// ============================================================================
+
+interface BatchEntry {
+  id: string
+  file: File
+  title: string
+  status: 'analyzing' | 'ready' | 'formatting' | 'done' | 'error'
+  message?: string
+  content?: ContentItem[]
+  blob?: Blob
+}
+
+const BATCH_STATUS_LABELS: Record<BatchEntry['status'], string> = {
+  analyzing: 'Analyzing',
+  ready: 'Ready',
+  formatting: 'Formatting',
+  done: 'Formatted',
+  error: 'Failed',
+}
+
+function summarizeStats(stats: Stats): string {
+  return [
+    `${stats.headings} headings`,
+    `${stats.bullets + stats.numbered} list items`,
+    `${stats.codeBlocks} code blocks`,
+    `${stats.tables} tables`,
+    `${stats.images} images`,
+    `${stats.callouts} callouts`,
+    `${stats.paragraphs} paragraphs`,
+  ].join(' · ')
+}
+
+// Two documents with the same title get numbered file names inside the zip
+async function createBatchZip(entries: BatchEntry[]): Promise<Blob> {
+  const zip = new JSZip()
+  const used = new Set<string>()
+  
+  for (const entry of entries) {
+    if (!entry.blob) continue
+    let name = getOutputFileName(entry.title, 'docx')
+    for (let n = 2; used.has(name.toLowerCase()); n++) {
+      name = getOutputFileName(`${entry.title} ${n}`, 'docx')
     }
-    
-    lastType = item.type
+    used.add(name.toLowerCase())
+    zip.file(name, entry.blob)
   }
   
-  // ---- END OF DOCUMENT ----
-  children.push(
-    new Paragraph({
-      alignment: AlignmentType.CENTER,
-      spacing: { before: 400 },
-      children: [
-        new TextRun({
-          text: 'End of Document',
-          font: 'Aptos',
-          size: SIZES.BODY,
-          italics: true,
-          color: COLORS.SECONDARY,
-        }),
-      ],
-    })
+  return zip.generateAsync({ type: 'blob' })
+}
+
+function BatchList({
+  entries,
+  disabled,
+  onTitleChange,
+  onRemove,
+}: {
+  entries: BatchEntry[]
+  disabled: boolean
+  onTitleChange: (id: string, title: string) => void
+  onRemove: (id: string) => void
+}) {
+  return (
+    <div className="review-box">
+      <p className="review-title"><strong>Documents ({entries.length})</strong></p>
+      <p className="review-hint">
+        Titles default to each document&apos;s title property or first heading. Subtitle, organization, author
+        and style profile apply to every document.
+      </p>
+      <div className="review-list">
+        {entries.map(entry => (
+          <div key={entry.id} className={`review-item batch-item ${entry.status}`}>
+            <div className="review-item-header">
+              <span className="batch-file-name" title={entry.file.name}>{entry.file.name}</span>
+              <span className={`batch-status ${entry.status}`}>{BATCH_STATUS_LABELS[entry.status]}</span>
+              <div className="review-actions">
+                <button type="button" onClick={() => onRemove(entry.id)} disabled={disabled}>
+                  Remove
+                </button>
+              </div>
+            </div>
+            <input
+              type="text"
+              className="input review-text"
+              placeholder="Document title"
+              value={entry.title}
+              onChange={(e) => onTitleChange(entry.id, e.target.value)}
+              disabled={disabled || entry.status === 'analyzing'}
+            />
+            {entry.message && <p className="review-summary">{entry.message}</p>}
+            {entry.content && <p className="review-summary">{summarizeStats(computeStats(entry.content))}</p>}
+          </div>
+        ))}
+      </div>
+    </div>
   )
-  
-  return new Document({
-    styles: {
-      default: {
-        document: {
-          run: {
-            font: 'Aptos',
-            size: SIZES.BODY,
-          },
-        },
-      },
-      paragraphStyles: [
-        {
-          id: 'Heading1',
-          name: 'Heading 1',
-          basedOn: 'Normal',
-          next: 'Normal',
-          quickFormat: true,
-          run: {
-            font: 'Aptos',
-            size: SIZES.HEADING1,
-            bold: true,
-            color: COLORS.HEADING1,
-          },
-          paragraph: {
-            spacing: { before: 300, after: 120 },
-          },
-        },
-        {
-          id: 'Heading2',
-          name: 'Heading 2',
-          basedOn: 'Normal',
-          next: 'Normal',
-          quickFormat: true,
-          run: {
-            font: 'Aptos',
-            size: SIZES.HEADING2,
-            bold: true,
-            color: COLORS.HEADING2,
-          },
-          paragraph: {
-            spacing: { before: 240, after: 100 },
-          },
-        },
-        {
-          id: 'Heading3',
-          name: 'Heading 3',
-          basedOn: 'Normal',
-          next: 'Normal',
-          quickFormat: true,
-          run: {
-            font: 'Aptos',
-            size: SIZES.HEADING3,
-            bold: true,
-            color: COLORS.HEADING3,
-          },
-          paragraph: {
-            spacing: { before: 200, after: 80 },
-          },
-        },
-      ],
-    },
-    numbering: {
-      config: [
-        {
-          reference: 'bullet-list',
-          levels: [
-            {
-              level: 0,
-              format: LevelFormat.BULLET,
-              text: '\u2022',
-              alignment: AlignmentType.LEFT,
-              style: {
-                paragraph: {
-                  indent: { left: 720, hanging: 360 },
-                },
-              },
-            },
-            {
-              level: 1,
-              format: LevelFormat.BULLET,
-              text: '\u25E6',
-              alignment: AlignmentType.LEFT,
-              style: {
-                paragraph: {
-                  indent: { left: 1080, hanging: 360 },
-                },
-              },
-            },
-          ],
-        },
-      ],
-    },
-    sections: [
-      {
-        properties: {
-          page: {
-            margin: {
-              top: 1440,
-              right: 1440,
-              bottom: 1440,
-              left: 1440,
-            },
-          },
-        },
-        footers: {
-          default: new Footer({
-            children: [
-              new Paragraph({
-                alignment: AlignmentType.CENTER,
-                children: [
-                  new TextRun({
-                    children: [PageNumber.CURRENT],
-                    font: 'Aptos',
-                    size: 18,
-                    color: COLORS.SECONDARY,
-                  }),
-                ],
-              }),
-            ],
-          }),
-        },
-        children: children,
-      },
-    ],
-  })
 }
 
 // ============================================================================
 // REACT COMPONENT
 // ============================================================================
 
-interface Stats {
-  headings: number
-  bullets: number
-  numbered: number
-  codeBlocks: number
-  paragraphs: number
-}
+// Suggestions for the confidentiality marking; any text can be entered
+const CONFIDENTIALITY_MARKINGS = ['Internal', 'Confidential – Client Internal', 'Confidential – TechTorch Internal', 'Strictly Confidential']
 
 export default function Home() {
   const [file, setFile] = useState<File | null>(null)
+  const [inputMode, setInputMode] = useState<'file' | 'paste' | 'batch'>('file')
+  const [pastedText, setPastedText] = useState('')
+  const [pasteFormat, setPasteFormat] = useState<'markdown' | 'text'>('markdown')
   const [docTitle, setDocTitle] = useState('')
   const [subtitle, setSubtitle] = useState('')
   const [organization, setOrganization] = useState('')
   const [author, setAuthor] = useState('')
+  const [figureCaptions, setFigureCaptions] = useState(false)
+  const [codeLanguageLabels, setCodeLanguageLabels] = useState(false)
+  const [codeLineNumbers, setCodeLineNumbers] = useState(false)
+  const [headingNumbers, setHeadingNumbers] = useState(false)
+  const [tableOfContents, setTableOfContents] = useState(true)
+  const [tocDepth, setTocDepth] = useState(DEFAULT_TOC_DEPTH)
+  const [template, setTemplate] = useState<DocumentTemplate>(DEFAULT_TEMPLATE)
+  const [documentVersion, setDocumentVersion] = useState<DocumentVersion>(DEFAULT_DOCUMENT_VERSION)
+  const [runningHeader, setRunningHeader] = useState(DEFAULT_TEMPLATE.header)
+  const [runningFooter, setRunningFooter] = useState(DEFAULT_TEMPLATE.footer)
+  const [confidentiality, setConfidentiality] = useState('')
+  const [differentFirstPage, setDifferentFirstPage] = useState(true)
+  const [draftWatermark, setDraftWatermark] = useState(false)
+  const [logos, setLogos] = useState<DocumentLogos>({})
+  const [headerLogos, setHeaderLogos] = useState(false)
   const [status, setStatus] = useState<'idle' | 'processing' | 'success' | 'error'>('idle')
   const [statusMessage, setStatusMessage] = useState('')
   const [downloadReady, setDownloadReady] = useState(false)
   const [docBlob, setDocBlob] = useState<Blob | null>(null)
-  const [stats, setStats] = useState<Stats | null>(null)
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('docx')
+  const [batchEntries, setBatchEntries] = useState<BatchEntry[]>([])
+  const [batchZip, setBatchZip] = useState<Blob | null>(null)
+  const [content, setContent] = useState<ContentItem[] | null>(null)
+  const [sourceText, setSourceText] = useState('')
+  const [profile, setProfile] = useState<StyleProfile>(DEFAULT_STYLE_PROFILE)
+  const [savedProfiles, setSavedProfiles] = useState<StyleProfile[]>([])
+  const [ruleset, setRuleset] = useState<DetectionRuleset>(DEFAULT_RULESET)
+  const [savedRulesets, setSavedRulesets] = useState<DetectionRuleset[]>([])
   const fileInputRef = useRef<HTMLInputElement>(null)
+  const batchInputRef = useRef<HTMLInputElement>(null)
+  
+  // Saved profiles are only available in the browser, so load them after mount
+  useEffect(() => {
+    const saved = loadSavedProfiles()
+    setSavedProfiles(saved)
+    const activeId = localStorage.getItem(ACTIVE_PROFILE_STORAGE_KEY)
+    const active = saved.find(p => p.id === activeId)
+    if (active) setProfile(active)
+    
+    const rulesets = loadSavedRulesets()
+    setSavedRulesets(rulesets)
+    const activeRulesetId = localStorage.getItem(ACTIVE_RULESET_STORAGE_KEY)
+    const activeRuleset = [...BUILT_IN_RULESETS, ...rulesets].find(r => r.id === activeRulesetId)
+    if (activeRuleset) setRuleset(activeRuleset)
+    
+    setLogos(loadSavedLogos())
+  }, [])
+  
+  const stats: Stats | null = content ? computeStats(content) : null
+  const rules = compileRuleset(ruleset)
+  const formatOptions: FormatOptions = {
+    figureCaptions,
+    codeLanguageLabels,
+    codeLineNumbers,
+    headingNumbers,
+    tableOfContents,
+    tocDepth,
+    profile,
+    template,
+    documentVersion: normalizeDocumentVersion(documentVersion),
+    header: runningHeader,
+    footer: runningFooter,
+    confidentiality: confidentiality.trim(),
+    differentFirstPage,
+    draftWatermark,
+    logos,
+    headerLogos,
+  }
   
   const handleFileSelect = (e: React.ChangeEvent<HTMLInputElement>) => {
     const selectedFile = e.target.files?.[0]
@@ -961,42 +1411,122 @@ export default function Home() {
       setFile(selectedFile)
       setStatus('idle')
       setDownloadReady(false)
-      setStats(null)
+      setContent(null)
     }
   }
   
   const handleDrop = (e: React.DragEvent) => {
     e.preventDefault()
+    // Dropping several files switches to batch mode
+    if (e.dataTransfer.files.length > 1) {
+      setInputMode('batch')
+      handleBatchFiles(e.dataTransfer.files)
+      return
+    }
     const droppedFile = e.dataTransfer.files?.[0]
-    if (droppedFile && droppedFile.name.endsWith('.docx')) {
+    if (droppedFile && detectInputFormat(droppedFile.name)) {
       setFile(droppedFile)
       setStatus('idle')
       setDownloadReady(false)
-      setStats(null)
+      setContent(null)
     }
   }
   
-  const handleFormat = async () => {
-    if (!file || !docTitle) return
+  const handlePastedTextChange = (text: string) => {
+    setPastedText(text)
+    setDownloadReady(false)
+    setContent(null)
+  }
+  
+  const canAnalyze = inputMode === 'file' ? !!file : pastedText.trim() !== ''
+  
+  const handleAnalyze = async () => {
+    if (!canAnalyze) return
     
     setStatus('processing')
     setStatusMessage('Analyzing document structure...')
+    setDownloadReady(false)
     
     try {
-      const content = await extractContent(file)
-      
-      // Calculate stats
-      const newStats: Stats = {
-        headings: content.filter(c => c.type.startsWith('heading')).length,
-        bullets: content.filter(c => c.type === 'bullet' || c.type === 'sub_bullet').length,
-        numbered: content.filter(c => c.type === 'numbered').length,
-        codeBlocks: content.filter(c => c.type === 'code_block').length,
-        paragraphs: content.filter(c => c.type === 'paragraph').length,
-      }
-      setStats(newStats)
-      
-      setStatusMessage('Applying TechTorch formatting standards...')
-      const doc = createFormattedDocument(content, docTitle, subtitle, organization || 'TechTorch Inc.', author)
+      const extracted = inputMode === 'file' && file
+        ? await extractContent(file, rules)
+        : extractTextContent(pastedText, pasteFormat, rules)
+      // The preview's source pane is a nicety, so a file mammoth can't read as text just leaves it empty
+      setSourceText(inputMode === 'file' && file ? await extractSourceText(file).catch(() => '') : pastedText)
+      setContent(extracted)
+      setStatus('success')
+      setStatusMessage('Structure detected. Review the items below, then generate the document.')
+    } catch (err) {
+      setStatus('error')
+      setStatusMessage(`Error: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+  
+  // Any correction invalidates a previously generated document
+  const handleContentChange = (updated: ContentItem[]) => {
+    setContent(updated)
+    setDownloadReady(false)
+  }
+  
+  // A template brings its own header and footer text, which can then be edited
+  const handleTemplateChange = (id: string) => {
+    const selected = BUILT_IN_TEMPLATES.find(t => t.id === id) || DEFAULT_TEMPLATE
+    setTemplate(selected)
+    setRunningHeader(selected.header)
+    setRunningFooter(selected.footer)
+    setDownloadReady(false)
+    setBatchZip(null)
+  }
+
+  const handleProfileChange = (updated: StyleProfile) => {
+    setProfile(updated)
+    setDownloadReady(false)
+    setBatchZip(null)
+    localStorage.setItem(ACTIVE_PROFILE_STORAGE_KEY, updated.id)
+  }
+  
+  const handleSavedProfilesChange = (profiles: StyleProfile[]) => {
+    setSavedProfiles(profiles)
+    storeSavedProfiles(profiles)
+  }
+  
+  // A new ruleset applies from the next analysis; the current review is kept
+  const handleRulesetChange = (updated: DetectionRuleset) => {
+    setRuleset(updated)
+    localStorage.setItem(ACTIVE_RULESET_STORAGE_KEY, updated.id)
+  }
+  
+  const handleSavedRulesetsChange = (rulesets: DetectionRuleset[]) => {
+    setSavedRulesets(rulesets)
+    storeSavedRulesets(rulesets)
+  }
+  
+  // Logos are saved as soon as they change; a full browser storage keeps them for this session only
+  const handleLogoChange = (role: keyof DocumentLogos, logo: Logo | undefined) => {
+    const updated = { ...logos, [role]: logo }
+    setLogos(updated)
+    setDownloadReady(false)
+    setBatchZip(null)
+    try {
+      storeSavedLogos(updated)
+    } catch {
+      handleProfileError('Browser storage is full, so the logos will not be remembered next time')
+    }
+  }
+  
+  const handleProfileError = (message: string) => {
+    setStatus('error')
+    setStatusMessage(message)
+  }
+  
+  const handleFormat = async () => {
+    if (!content || !docTitle) return
+    
+    setStatus('processing')
+    
+    try {
+      setStatusMessage(`Applying ${profile.name} formatting...`)
+      const doc = createFormattedDocument(content, docTitle, subtitle, organization || 'TechTorch Inc.', author, formatOptions)
       
       setStatusMessage('Generating document...')
       const blob = await Packer.toBlob(doc)
@@ -1011,13 +1541,101 @@ export default function Home() {
     }
   }
   
-  const handleDownload = () => {
-    if (docBlob) {
-      const cleanTitle = docTitle.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_')
-      saveAs(docBlob, `${cleanTitle}_Formatted.docx`)
+  // Word output is built by Generate; the other formats are rendered from the same content on download
+  const handleDownload = async () => {
+    if (!docBlob || !content) return
+    
+    const { extension, contentType } = getExportFormat(exportFormat)
+    const args = [content, docTitle, subtitle, organization || 'TechTorch Inc.', author, formatOptions] as const
+    
+    try {
+      let blob = docBlob
+      if (exportFormat === 'pdf') {
+        setStatus('processing')
+        setStatusMessage('Generating PDF...')
+        blob = new Blob([await createPdf(...args)], { type: contentType })
+        setStatus('success')
+        setStatusMessage('PDF generated successfully!')
+      } else if (exportFormat === 'html') {
+        blob = new Blob([createHtmlDocument(...args)], { type: contentType })
+      } else if (exportFormat === 'markdown') {
+        blob = new Blob([createMarkdownDocument(...args)], { type: contentType })
+      }
+      saveAs(blob, getOutputFileName(docTitle, extension))
+    } catch (err) {
+      setStatus('error')
+      setStatusMessage(`Error: ${err instanceof Error ? err.message : 'Unknown error'}`)
+    }
+  }
+  
+  const updateBatchEntry = (id: string, changes: Partial<BatchEntry>) => {
+    setBatchEntries(entries => entries.map(entry => entry.id === id ? { ...entry, ...changes } : entry))
+  }
+  
+  // Files are analyzed as they are added, so titles can be checked before formatting
+  const handleBatchFiles = async (files: FileList) => {
+    const added: BatchEntry[] = Array.from(files)
+      .filter(f => detectInputFormat(f.name))
+      .map((f, i) => ({ id: `${Date.now().toString(36)}-${i}-${f.name}`, file: f, title: '', status: 'analyzing' }))
+    if (added.length === 0) return
+    
+    setBatchEntries(entries => [...entries, ...added])
+    setBatchZip(null)
+    
+    for (const entry of added) {
+      try {
+        const extracted = await extractContent(entry.file, rules)
+        const title = await getDefaultTitle(entry.file, extracted)
+        updateBatchEntry(entry.id, { content: extracted, title, status: 'ready' })
+      } catch (err) {
+        updateBatchEntry(entry.id, { status: 'error', message: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` })
+      }
     }
   }
   
+  const handleBatchTitleChange = (id: string, title: string) => {
+    updateBatchEntry(id, { title, blob: undefined, status: 'ready' })
+    setBatchZip(null)
+  }
+  
+  const handleBatchRemove = (id: string) => {
+    setBatchEntries(entries => entries.filter(entry => entry.id !== id))
+    setBatchZip(null)
+  }
+  
+  const handleBatchFormat = async () => {
+    const formatted: BatchEntry[] = []
+    setStatus('processing')
+    
+    for (const entry of batchEntries) {
+      if (!entry.content || !entry.title.trim()) continue
+      setStatusMessage(`Formatting ${entry.file.name}...`)
+      updateBatchEntry(entry.id, { status: 'formatting', message: undefined })
+      try {
+        const doc = createFormattedDocument(entry.content, entry.title, subtitle, organization || 'TechTorch Inc.', author, formatOptions)
+        const blob = await Packer.toBlob(doc)
+        formatted.push({ ...entry, blob })
+        updateBatchEntry(entry.id, { status: 'done', blob })
+      } catch (err) {
+        updateBatchEntry(entry.id, { status: 'error', message: `Error: ${err instanceof Error ? err.message : 'Unknown error'}` })
+      }
+    }
+    
+    if (formatted.length === 0) {
+      setStatus('error')
+      setStatusMessage('No documents could be formatted.')
+      return
+    }
+    
+    setStatusMessage('Creating zip...')
+    setBatchZip(await createBatchZip(formatted))
+    setStatus('success')
+    setStatusMessage(`${formatted.length} of ${batchEntries.length} documents formatted successfully!`)
+  }
+  
+  const batchBusy = status === 'processing' || batchEntries.some(entry => entry.status === 'analyzing')
+  const canFormatBatch = batchEntries.some(entry => entry.content && entry.title.trim())
+  
   return (
     <div className="container">
       <div className="card">
@@ -1029,39 +1647,118 @@ export default function Home() {
         
         <div className="divider" />
         
-        <div
-          className={`upload-area ${file ? 'has-file' : ''}`}
-          onClick={() => fileInputRef.current?.click()}
-          onDrop={handleDrop}
-          onDragOver={(e) => e.preventDefault()}
-        >
-          <div className="upload-icon">{file ? '✅' : '📁'}</div>
-          <p className="upload-text">
-            {file ? 'File selected' : 'Click or drag to upload'}
-          </p>
-          <p className="upload-hint">.docx files only</p>
-          {file && <p className="file-name">{file.name}</p>}
-          <input
-            ref={fileInputRef}
-            type="file"
-            accept=".docx"
-            onChange={handleFileSelect}
-            className="hidden"
-          />
+        <div className="input-tabs">
+          <button
+            type="button"
+            className={inputMode === 'file' ? 'active' : ''}
+            onClick={() => { setInputMode('file'); setContent(null); setDownloadReady(false) }}
+          >
+            Upload File
+          </button>
+          <button
+            type="button"
+            className={inputMode === 'paste' ? 'active' : ''}
+            onClick={() => { setInputMode('paste'); setContent(null); setDownloadReady(false) }}
+          >
+            Paste Text
+          </button>
+          <button
+            type="button"
+            className={inputMode === 'batch' ? 'active' : ''}
+            onClick={() => { setInputMode('batch'); setContent(null); setDownloadReady(false) }}
+          >
+            Batch
+          </button>
         </div>
         
+        {inputMode === 'batch' ? (
+          <div
+            className={`upload-area ${batchEntries.length > 0 ? 'has-file' : ''}`}
+            onClick={() => batchInputRef.current?.click()}
+            onDrop={(e) => { e.preventDefault(); handleBatchFiles(e.dataTransfer.files) }}
+            onDragOver={(e) => e.preventDefault()}
+          >
+            <div className="upload-icon">{batchEntries.length > 0 ? '✅' : '🗂️'}</div>
+            <p className="upload-text">
+              {batchEntries.length > 0 ? `${batchEntries.length} files selected — click or drag to add more` : 'Click or drag to upload several files'}
+            </p>
+            <p className="upload-hint">.docx, .md or .txt files</p>
+            <input
+              ref={batchInputRef}
+              type="file"
+              accept=".docx,.md,.markdown,.txt"
+              multiple
+              onChange={(e) => { if (e.target.files) handleBatchFiles(e.target.files); e.target.value = '' }}
+              className="hidden"
+            />
+          </div>
+        ) : inputMode === 'file' ? (
+          <div
+            className={`upload-area ${file ? 'has-file' : ''}`}
+            onClick={() => fileInputRef.current?.click()}
+            onDrop={handleDrop}
+            onDragOver={(e) => e.preventDefault()}
+          >
+            <div className="upload-icon">{file ? '✅' : '📁'}</div>
+            <p className="upload-text">
+              {file ? 'File selected' : 'Click or drag to upload'}
+            </p>
+            <p className="upload-hint">.docx, .md or .txt files</p>
+            {file && <p className="file-name">{file.name}</p>}
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".docx,.md,.markdown,.txt"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+        ) : (
+          <div className="paste-area">
+            <textarea
+              className="input paste-text"
+              rows={12}
+              placeholder={pasteFormat === 'markdown' ? '# Heading\n\nParagraph text with **bold** and `code`...' : 'Paste plain text here...'}
+              value={pastedText}
+              onChange={(e) => handlePastedTextChange(e.target.value)}
+            />
+            <div className="paste-format">
+              <label className="checkbox-label">
+                <input
+                  type="radio"
+                  name="paste-format"
+                  checked={pasteFormat === 'markdown'}
+                  onChange={() => { setPasteFormat('markdown'); setContent(null) }}
+                />
+                Markdown
+              </label>
+              <label className="checkbox-label">
+                <input
+                  type="radio"
+                  name="paste-format"
+                  checked={pasteFormat === 'text'}
+                  onChange={() => { setPasteFormat('text'); setContent(null) }}
+                />
+                Plain text (auto-detect structure)
+              </label>
+            </div>
+          </div>
+        )}
+        
         <div className="divider" />
         
-        <div className="form-group">
-          <label className="label">Document Title *</label>
-          <input
-            type="text"
-            className="input"
-            placeholder="e.g., Salesforce CPQ & Billing Stabilization"
-            value={docTitle}
-            onChange={(e) => setDocTitle(e.target.value)}
-          />
-        </div>
+        {inputMode !== 'batch' && (
+          <div className="form-group">
+            <label className="label">Document Title *</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="e.g., Salesforce CPQ & Billing Stabilization"
+              value={docTitle}
+              onChange={(e) => setDocTitle(e.target.value)}
+            />
+          </div>
+        )}
         
         <div className="form-group">
           <label className="label">Subtitle</label>
@@ -1070,7 +1767,7 @@ export default function Home() {
             className="input"
             placeholder="e.g., Technical Documentation and Operational Handoff"
             value={subtitle}
-            onChange={(e) => setSubtitle(e.target.value)}
+            onChange={(e) => { setSubtitle(e.target.value); setBatchZip(null) }}
           />
         </div>
         
@@ -1082,7 +1779,7 @@ export default function Home() {
               className="input"
               placeholder="e.g., Calabrio Inc."
               value={organization}
-              onChange={(e) => setOrganization(e.target.value)}
+              onChange={(e) => { setOrganization(e.target.value); setBatchZip(null) }}
             />
           </div>
           
@@ -1093,22 +1790,241 @@ export default function Home() {
               className="input"
               placeholder="e.g., Kornel"
               value={author}
-              onChange={(e) => setAuthor(e.target.value)}
+              onChange={(e) => { setAuthor(e.target.value); setBatchZip(null) }}
             />
           </div>
         </div>
         
-        <button
-          className="button"
-          onClick={handleFormat}
-          disabled={!file || !docTitle || status === 'processing'}
-        >
-          {status === 'processing' ? 'Processing...' : 'Format Document'}
-        </button>
+        <div className="form-row">
+          <div className="form-group third">
+            <label className="label">Version</label>
+            <input
+              type="text"
+              className="input"
+              placeholder={DEFAULT_DOCUMENT_VERSION.version}
+              value={documentVersion.version}
+              onChange={(e) => { setDocumentVersion({ ...documentVersion, version: e.target.value }); setDownloadReady(false); setBatchZip(null) }}
+            />
+          </div>
+          
+          <div className="form-group third">
+            <label className="label">Issue Date</label>
+            <input
+              type="date"
+              className="input"
+              value={documentVersion.issueDate}
+              onChange={(e) => { setDocumentVersion({ ...documentVersion, issueDate: e.target.value }); setDownloadReady(false); setBatchZip(null) }}
+            />
+          </div>
+          
+          <div className="form-group third">
+            <label className="label">Status</label>
+            <select
+              className="input"
+              value={documentVersion.status}
+              onChange={(e) => { setDocumentVersion({ ...documentVersion, status: e.target.value as DocumentStatus }); setDownloadReady(false); setBatchZip(null) }}
+            >
+              {Object.entries(DOCUMENT_STATUS_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
+          </div>
+        </div>
         
-        {downloadReady && (
-          <button className="button button-secondary" onClick={handleDownload}>
-            Download Formatted Document
+        <RevisionHistoryEditor
+          documentVersion={documentVersion}
+          author={author}
+          onChange={(updated) => { setDocumentVersion(updated); setDownloadReady(false); setBatchZip(null) }}
+        />
+        
+        <div className="form-group">
+          <label className="label">Document Template</label>
+          <select
+            className="input"
+            value={template.id}
+            onChange={(e) => handleTemplateChange(e.target.value)}
+          >
+            {BUILT_IN_TEMPLATES.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+          </select>
+          <p className="profile-hint">{template.description}</p>
+        </div>
+        
+        <div className="form-row">
+          <div className="form-group half">
+            <label className="label">Page Header</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="None"
+              value={runningHeader}
+              onChange={(e) => { setRunningHeader(e.target.value); setDownloadReady(false); setBatchZip(null) }}
+            />
+            <p className="profile-hint">{'{title}'}, {'{subtitle}'} and {'{organization}'} are filled in</p>
+          </div>
+          
+          <div className="form-group half">
+            <label className="label">Page Footer</label>
+            <input
+              type="text"
+              className="input"
+              placeholder="None"
+              value={runningFooter}
+              onChange={(e) => { setRunningFooter(e.target.value); setDownloadReady(false); setBatchZip(null) }}
+            />
+            <p className="profile-hint">{'{page}'} and {'{pages}'} add page numbers, e.g. Page {'{page}'} of {'{pages}'}</p>
+          </div>
+        </div>
+        
+        <div className="form-group">
+          <label className="label">Confidentiality Marking</label>
+          <input
+            type="text"
+            className="input"
+            list="confidentiality-markings"
+            placeholder="None, e.g. Confidential – Client Internal"
+            value={confidentiality}
+            onChange={(e) => { setConfidentiality(e.target.value); setDownloadReady(false); setBatchZip(null) }}
+          />
+          <datalist id="confidentiality-markings">
+            {CONFIDENTIALITY_MARKINGS.map(marking => <option key={marking} value={marking} />)}
+          </datalist>
+        </div>
+        
+        <div className="form-row">
+          <LogoPicker
+            label="TechTorch Logo"
+            logo={logos.company}
+            onChange={(logo) => handleLogoChange('company', logo)}
+            onError={handleProfileError}
+          />
+          <LogoPicker
+            label="Client Logo"
+            logo={logos.client}
+            onChange={(logo) => handleLogoChange('client', logo)}
+            onError={handleProfileError}
+          />
+        </div>
+        
+        <StyleProfilePanel
+          profile={profile}
+          savedProfiles={savedProfiles}
+          onProfileChange={handleProfileChange}
+          onSavedProfilesChange={handleSavedProfilesChange}
+          onError={handleProfileError}
+        />
+        
+        <RulesetPanel
+          ruleset={ruleset}
+          savedRulesets={savedRulesets}
+          onRulesetChange={handleRulesetChange}
+          onSavedRulesetsChange={handleSavedRulesetsChange}
+          onError={handleProfileError}
+        />
+        
+        <div className="form-group">
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={figureCaptions}
+              onChange={(e) => { setFigureCaptions(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+            />
+            Number images as &quot;Figure N&quot; captions
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={codeLanguageLabels}
+              onChange={(e) => { setCodeLanguageLabels(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+            />
+            Label code blocks with their language
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={codeLineNumbers}
+              onChange={(e) => { setCodeLineNumbers(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+            />
+            Number code block lines
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={headingNumbers}
+              onChange={(e) => { setHeadingNumbers(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+            />
+            Number headings 1, 1.1, 1.1.1 (replaces typed numbers)
+          </label>
+          {template.frontMatter.includes('table-of-contents') && (
+            <>
+              <label className="checkbox-label">
+                <input
+                  type="checkbox"
+                  checked={tableOfContents}
+                  onChange={(e) => { setTableOfContents(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+                />
+                Include a table of contents
+              </label>
+              {tableOfContents && (
+                <label className="checkbox-label toc-depth">
+                  Contents lists
+                  <select
+                    className="input"
+                    value={tocDepth}
+                    onChange={(e) => { setTocDepth(Number(e.target.value)); setDownloadReady(false); setBatchZip(null) }}
+                  >
+                    <option value={1}>Heading 1 only</option>
+                    <option value={2}>Headings 1 and 2</option>
+                    <option value={3}>Headings 1 to 3</option>
+                  </select>
+                </label>
+              )}
+            </>
+          )}
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={differentFirstPage}
+              onChange={(e) => { setDifferentFirstPage(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+            />
+            Leave the header and page number off the title page
+          </label>
+          <label className="checkbox-label">
+            <input
+              type="checkbox"
+              checked={draftWatermark}
+              onChange={(e) => { setDraftWatermark(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+            />
+            Add a diagonal DRAFT watermark
+          </label>
+          {(logos.company || logos.client) && (
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={headerLogos}
+                onChange={(e) => { setHeaderLogos(e.target.checked); setDownloadReady(false); setBatchZip(null) }}
+              />
+              Show the logos in the page header
+            </label>
+          )}
+        </div>
+        
+        {inputMode === 'batch' ? (
+          <button
+            className="button"
+            onClick={handleBatchFormat}
+            disabled={!canFormatBatch || batchBusy}
+          >
+            {status === 'processing' ? 'Processing...' : 'Format All Documents'}
+          </button>
+        ) : (
+          <button
+            className="button"
+            onClick={handleAnalyze}
+            disabled={!canAnalyze || status === 'processing'}
+          >
+            {status === 'processing' ? 'Processing...' : content ? 'Re-analyze Document' : 'Analyze Document'}
           </button>
         )}
         
@@ -1141,6 +2057,18 @@ export default function Home() {
                 <span className="stat-number">{stats.codeBlocks}</span>
                 <span className="stat-label">Code Blocks</span>
               </div>
+              <div className="stat-item">
+                <span className="stat-number">{stats.tables}</span>
+                <span className="stat-label">Tables</span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-number">{stats.images}</span>
+                <span className="stat-label">Images</span>
+              </div>
+              <div className="stat-item">
+                <span className="stat-number">{stats.callouts}</span>
+                <span className="stat-label">Callouts</span>
+              </div>
               <div className="stat-item">
                 <span className="stat-number">{stats.paragraphs}</span>
                 <span className="stat-label">Paragraphs</span>
@@ -1149,13 +2077,91 @@ export default function Home() {
           </div>
         )}
         
+        {inputMode === 'batch' && batchEntries.length > 0 && (
+          <BatchList
+            entries={batchEntries}
+            disabled={status === 'processing'}
+            onTitleChange={handleBatchTitleChange}
+            onRemove={handleBatchRemove}
+          />
+        )}
+        
+        {inputMode === 'batch' && batchZip && (
+          <button className="button button-secondary" onClick={() => saveAs(batchZip, 'TechTorch_Formatted_Documents.zip')}>
+            Download All as Zip
+          </button>
+        )}
+        
+        {content && (
+          <>
+            <StructureReview content={content} onChange={handleContentChange} />
+            
+            <DocumentPreview
+              content={content}
+              sourceName={inputMode === 'file' && file ? file.name : 'Pasted text'}
+              sourceText={sourceText}
+              docTitle={docTitle}
+              subtitle={subtitle}
+              organization={organization}
+              author={author}
+              options={formatOptions}
+            />
+            
+            <button
+              className="button button-generate"
+              onClick={handleFormat}
+              disabled={!docTitle || status === 'processing'}
+            >
+              {docTitle ? 'Generate Formatted Document' : 'Enter a Document Title to Generate'}
+            </button>
+          </>
+        )}
+        
+        {downloadReady && (
+          <div className="download-row">
+            <select
+              className="input export-format"
+              value={exportFormat}
+              onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+              aria-label="Export format"
+            >
+              {EXPORT_FORMATS.map(format => (
+                <option key={format.value} value={format.value}>{format.label}</option>
+              ))}
+            </select>
+            <button
+              className="button button-secondary"
+              onClick={handleDownload}
+              disabled={status === 'processing'}
+            >
+              Download Formatted Document
+            </button>
+          </div>
+        )}
+        
         <div className="info-box">
           <p><strong>Intelligent Detection:</strong></p>
+          <p>• Accepts Word, Markdown and plain text, uploaded or pasted</p>
+          <p>• Uses the source&apos;s own heading styles and lists when present</p>
           <p>• Automatically identifies section headers vs body text</p>
+          <p>• Repairs skipped heading levels and flags out-of-order section numbers</p>
           <p>• Detects bullet lists even without markers</p>
-          <p>• Recognizes code blocks (SQL, Apex, JavaScript)</p>
+          <p>• Tunable detection rules, with Salesforce, software and business report presets</p>
+          <p>• Recognizes code blocks and highlights SQL, Apex, JavaScript, JSON, XML and shell</p>
           <p>• Infers numbered lists from context</p>
-          <p>• Generates Table of Contents</p>
+          <p>• Preserves bold, italic, underline and hyperlinks</p>
+          <p>• Keeps source tables, including header rows and merged cells</p>
+          <p>• Sets notes, tips, warnings and other callouts in colored boxes, from their labels or the source&apos;s shading</p>
+          <p>• Carries screenshots and diagrams, scaled to the page width</p>
+          <p>• Lets you review and correct the detected structure before generating</p>
+          <p>• Previews the formatted document side by side with its source</p>
+          <p>• Templates for handoffs, SOWs, runbooks, release notes and meeting minutes</p>
+          <p>• Records version, status and revision history, also in the Word document properties</p>
+          <p>• Running headers and footers with Page X of Y, confidentiality markings and a DRAFT watermark</p>
+          <p>• TechTorch and client logos (PNG, JPEG or SVG) on the title page and in the header, remembered between sessions</p>
+          <p>• Generates a Table of Contents that is filled in before Word updates it</p>
+          <p>• Exports to Word, PDF, standalone HTML or Markdown</p>
+          <p>• Formats many documents at once into a single zip</p>
         </div>
         
         <div className="footer">
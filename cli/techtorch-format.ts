@@ -0,0 +1,309 @@
+#!/usr/bin/env -S npx --no-install tsx
+// Command-line formatter for scripts and CI. Runs the same extraction and exporters as
+// the page:
+//
+//   techtorch-format notes.docx --title "Release Notes" --org "Acme" -o Release_Notes.docx
+//   techtorch-format runbook.md --format pdf -o runbook.pdf
+//   techtorch-format "docs/**/*.md" --json -o analysis/
+//
+// Exit codes: 0 when every file was formatted, 1 when any file failed, 2 for usage errors.
+
+import { existsSync, readdirSync, statSync } from 'node:fs'
+import { mkdir, readFile, writeFile } from 'node:fs/promises'
+import path from 'node:path'
+import { parseArgs } from 'node:util'
+import { encodeBinaryData } from '../lib/content'
+import { DetectionRuleset, BUILT_IN_RULESETS, DEFAULT_RULESET, compileRuleset, parseRuleset } from '../lib/rulesets'
+import { detectInputFormat } from '../lib/classifier'
+import { extractContent, getDefaultTitle } from '../lib/extract'
+import { StyleProfile, BUILT_IN_PROFILES, DEFAULT_STYLE_PROFILE, parseStyleProfile } from '../lib/style-profiles'
+import { FormatOptions, DEFAULT_TOC_DEPTH, getOutputFileName } from '../lib/docx'
+import { EXPORT_FORMATS, exportDocument, getExportFormat, isExportFormat } from '../lib/export'
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from '../lib/templates'
+import { DocumentVersion, DEFAULT_DOCUMENT_VERSION, isDocumentStatus, isValidDate, parseRevisions } from '../lib/revisions'
+import { Logo, readLogo } from '../lib/logos'
+
+const USAGE = `Usage: techtorch-format <file | directory | glob>... [options]
+
+Formats .docx, .md and .txt files to the TechTorch standard. Directories are searched
+recursively; quote globs ("docs/**/*.md") so the formatter expands them, not the shell.
+
+Options:
+  --title <text>        Document title (default: the .docx title, first heading or file name)
+  --subtitle <text>     Subtitle shown on the title page
+  --org <text>          Organization (default: TechTorch Inc.)
+  --author <text>       Author shown in the version line
+  --doc-version <text>  Document version (default: 1.0)
+  --issue-date <date>   Issue date as YYYY-MM-DD (default: today)
+  --status <status>     draft or final (default: final)
+  --revisions <file>    Revision history as a JSON array of { version, date, author, changes }
+  -o, --output <path>   Output file for a single input, otherwise an output directory;
+                        "-" writes a single result to stdout (default: next to each input)
+  --format <format>     Output format: ${EXPORT_FORMATS.map(f => f.value).join(', ')} (default: docx)
+  --json                Write the detected content items as JSON instead of a document
+  --ruleset <id|file>   Built-in detection ruleset (${BUILT_IN_RULESETS.map(r => r.id).join(', ')}) or a ruleset JSON file
+  --profile <id|file>   Built-in style profile (${BUILT_IN_PROFILES.map(p => p.id).join(', ')}) or a profile JSON file
+  --template <id>       Document template (${BUILT_IN_TEMPLATES.map(t => t.id).join(', ')}; default: ${DEFAULT_TEMPLATE.id})
+  --heading-numbers     Number headings 1, 1.1, 1.1.1
+  --figure-captions     Number every image as "Figure N"
+  --code-labels         Show each code block's language above it
+  --line-numbers        Number code block lines
+  --toc-depth <1-3>     Heading levels listed in the table of contents (default: 3)
+  --no-toc              Leave out the table of contents
+  --header <text>       Page header; {title}, {subtitle} and {organization} are filled in (default: the template's)
+  --footer <text>       Page footer; also takes {page} and {pages}, e.g. "Page {page} of {pages}"
+  --confidentiality <text>
+                        Marking on the title page and in every footer, e.g. "Confidential – Client Internal"
+  --first-page-header   Show the header and page number on the title page too
+  --watermark           Add a diagonal DRAFT watermark
+  --logo <file>         TechTorch logo (PNG, JPEG or SVG) for the title page
+  --client-logo <file>  Client logo for the title page
+  --header-logos        Also show the logos in the page header
+  -h, --help            Show this help`
+
+class UsageError extends Error {}
+
+// Word lock files and earlier output are skipped when searching directories
+function isFormattableFile(fileName: string): boolean {
+  return !!detectInputFormat(fileName) && !fileName.startsWith('~$') && !/_Formatted\.[^.]+$/.test(fileName)
+}
+
+function walkDirectory(dir: string): string[] {
+  const files: string[] = []
+  for (const entry of readdirSync(dir, { withFileTypes: true })) {
+    if (entry.name.startsWith('.') || entry.name === 'node_modules') continue
+    const entryPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) files.push(...walkDirectory(entryPath))
+    else if (entry.isFile() && isFormattableFile(entry.name)) files.push(entryPath)
+  }
+  return files.sort()
+}
+
+// Supports *, ** and ? in forward-slash paths; ** also matches no directories at all
+function globToRegExp(glob: string): RegExp {
+  let source = ''
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i]
+    if (char === '*' && glob[i + 1] === '*') {
+      const slash = glob[i + 2] === '/'
+      source += slash ? '(?:.*/)?' : '.*'
+      i += slash ? 2 : 1
+    } else if (char === '*') {
+      source += '[^/]*'
+    } else if (char === '?') {
+      source += '[^/]'
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&')
+    }
+  }
+  return new RegExp(`^${source}$`)
+}
+
+function expandGlob(glob: string): string[] {
+  const segments = glob.split(/[\\/]/)
+  const firstWild = segments.findIndex(segment => /[*?]/.test(segment))
+  const base = segments.slice(0, firstWild).join('/') || '.'
+  if (!existsSync(base) || !statSync(base).isDirectory()) return []
+
+  const pattern = globToRegExp(segments.slice(firstWild).join('/'))
+  return walkDirectory(base).filter(file => pattern.test(path.relative(base, file).split(path.sep).join('/')))
+}
+
+// Files, directories and globs in argument order, without duplicates
+function resolveInputs(args: string[]): { files: string[]; unmatched: string[] } {
+  const files: string[] = []
+  const unmatched: string[] = []
+
+  for (const arg of args) {
+    let matches: string[]
+    if (/[*?]/.test(arg)) matches = expandGlob(arg)
+    else if (!existsSync(arg)) matches = []
+    else if (statSync(arg).isDirectory()) matches = walkDirectory(arg)
+    else matches = [arg] // Named files are always tried so an unsupported type is reported, not skipped
+
+    if (matches.length === 0) unmatched.push(arg)
+    for (const file of matches) {
+      if (!files.includes(file)) files.push(file)
+    }
+  }
+
+  return { files, unmatched }
+}
+
+async function loadRuleset(value: string | undefined): Promise<DetectionRuleset> {
+  if (!value) return DEFAULT_RULESET
+  const builtIn = BUILT_IN_RULESETS.find(ruleset => ruleset.id === value)
+  if (builtIn) return builtIn
+  if (!existsSync(value)) throw new UsageError(`Unknown ruleset "${value}" (not a built-in id or a file)`)
+  return parseRuleset(await readFile(value, 'utf8'))
+}
+
+async function loadProfile(value: string | undefined): Promise<StyleProfile> {
+  if (!value) return DEFAULT_STYLE_PROFILE
+  const builtIn = BUILT_IN_PROFILES.find(profile => profile.id === value)
+  if (builtIn) return builtIn
+  if (!existsSync(value)) throw new UsageError(`Unknown style profile "${value}" (not a built-in id or a file)`)
+  return parseStyleProfile(await readFile(value, 'utf8'))
+}
+
+async function loadRevisions(file: string | undefined): Promise<DocumentVersion['revisions']> {
+  if (!file) return []
+  if (!existsSync(file)) throw new UsageError(`Revisions file "${file}" not found`)
+  return parseRevisions(await readFile(file, 'utf8'))
+}
+
+async function loadLogo(file: string | undefined): Promise<Logo | undefined> {
+  if (!file) return undefined
+  if (!existsSync(file)) throw new UsageError(`Logo file "${file}" not found`)
+  return readLogo(new Uint8Array(await readFile(file)), path.basename(file))
+}
+
+async function run(argv: string[]): Promise<number> {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      title: { type: 'string' },
+      subtitle: { type: 'string' },
+      org: { type: 'string' },
+      author: { type: 'string' },
+      'doc-version': { type: 'string' },
+      'issue-date': { type: 'string' },
+      status: { type: 'string' },
+      revisions: { type: 'string' },
+      output: { type: 'string', short: 'o' },
+      format: { type: 'string' },
+      json: { type: 'boolean' },
+      ruleset: { type: 'string' },
+      profile: { type: 'string' },
+      template: { type: 'string' },
+      'heading-numbers': { type: 'boolean' },
+      'figure-captions': { type: 'boolean' },
+      'code-labels': { type: 'boolean' },
+      'line-numbers': { type: 'boolean' },
+      'toc-depth': { type: 'string' },
+      'no-toc': { type: 'boolean' },
+      header: { type: 'string' },
+      footer: { type: 'string' },
+      confidentiality: { type: 'string' },
+      'first-page-header': { type: 'boolean' },
+      watermark: { type: 'boolean' },
+      logo: { type: 'string' },
+      'client-logo': { type: 'string' },
+      'header-logos': { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  })
+
+  if (values.help) {
+    console.log(USAGE)
+    return 0
+  }
+  if (positionals.length === 0) throw new UsageError('No input files given')
+
+  const tocDepth = values['toc-depth'] === undefined ? DEFAULT_TOC_DEPTH : Number(values['toc-depth'])
+  if (![1, 2, 3].includes(tocDepth)) throw new UsageError('--toc-depth must be 1, 2 or 3')
+  const template = values.template === undefined ? DEFAULT_TEMPLATE : BUILT_IN_TEMPLATES.find(t => t.id === values.template)
+  if (!template) throw new UsageError(`Unknown template "${values.template}" (${BUILT_IN_TEMPLATES.map(t => t.id).join(', ')})`)
+  const issueDate = values['issue-date'] || ''
+  if (issueDate && !isValidDate(issueDate)) throw new UsageError('--issue-date must be a YYYY-MM-DD date')
+  const format = values.format || 'docx'
+  if (!isExportFormat(format)) throw new UsageError(`--format must be one of ${EXPORT_FORMATS.map(f => f.value).join(', ')}`)
+  const status = values.status || DEFAULT_DOCUMENT_VERSION.status
+  if (!isDocumentStatus(status)) throw new UsageError('--status must be draft or final')
+  
+  const rules = compileRuleset(await loadRuleset(values.ruleset))
+  const options: FormatOptions = {
+    figureCaptions: values['figure-captions'],
+    codeLanguageLabels: values['code-labels'],
+    codeLineNumbers: values['line-numbers'],
+    headingNumbers: values['heading-numbers'],
+    tableOfContents: !values['no-toc'],
+    tocDepth,
+    profile: await loadProfile(values.profile),
+    template,
+    documentVersion: {
+      version: values['doc-version'] || DEFAULT_DOCUMENT_VERSION.version,
+      issueDate,
+      status,
+      revisions: await loadRevisions(values.revisions),
+    },
+    header: values.header,
+    footer: values.footer,
+    confidentiality: values.confidentiality,
+    differentFirstPage: !values['first-page-header'],
+    draftWatermark: values.watermark,
+    logos: { company: await loadLogo(values.logo), client: await loadLogo(values['client-logo']) },
+    headerLogos: values['header-logos'],
+  }
+
+  const { files, unmatched } = resolveInputs(positionals)
+  for (const arg of unmatched) console.error(`✗ ${arg}: ${/[*?]/.test(arg) ? 'no matching files' : 'not found'}`)
+
+  // With a single named input file, -o names the output file unless it is an existing directory
+  const output = values.output
+  const singleFile = positionals.length === 1 && files.length === 1 && files[0] === positionals[0]
+  const outputIsFile = !!output && singleFile && !(existsSync(output) && statSync(output).isDirectory())
+  if (output === '-' && !outputIsFile) throw new UsageError('-o - needs exactly one input file')
+  if (output && !outputIsFile) await mkdir(output, { recursive: true })
+
+  const extension = values.json ? 'json' : getExportFormat(format).extension
+  const used = new Set<string>()
+  let formatted = 0
+
+  for (const file of files) {
+    try {
+      if (!detectInputFormat(file)) throw new Error('Unsupported file type (expected .docx, .md or .txt)')
+
+      const source = new File([await readFile(file)], path.basename(file))
+      const content = await extractContent(source, rules)
+      if (content.length === 0) throw new Error('No content found')
+
+      let data: string | Uint8Array
+      if (values.json) {
+        data = `${JSON.stringify(content, encodeBinaryData, 2)}\n`
+      } else {
+        const title = values.title || (await getDefaultTitle(source, content))
+        data = await exportDocument(format, content, title, values.subtitle || '', values.org || 'TechTorch Inc.', values.author || '', options)
+      }
+
+      if (output === '-') {
+        process.stdout.write(data)
+        console.error(`✓ ${file}`)
+        formatted++
+        continue
+      }
+
+      // Two inputs with the same name get numbered output names
+      const baseName = path.parse(file).name
+      const dir = output || path.dirname(file)
+      let outputPath = outputIsFile ? output : path.join(dir, getOutputFileName(baseName, extension))
+      for (let n = 2; used.has(outputPath.toLowerCase()); n++) {
+        outputPath = path.join(dir, getOutputFileName(`${baseName} ${n}`, extension))
+      }
+      used.add(outputPath.toLowerCase())
+
+      await writeFile(outputPath, data)
+      console.error(`✓ ${file} → ${outputPath}`)
+      formatted++
+    } catch (err) {
+      console.error(`✗ ${file}: ${err instanceof Error ? err.message : String(err)}`)
+    }
+  }
+
+  const failed = formatted < files.length || unmatched.length > 0
+  if (files.length > 1 || (failed && files.length > 0)) console.error(`${formatted} of ${files.length} files formatted`)
+  return failed ? 1 : 0
+}
+
+run(process.argv.slice(2))
+  .then(code => {
+    process.exitCode = code
+  })
+  .catch(err => {
+    // parseArgs reports unknown options and missing values as TypeErrors
+    const usage = err instanceof UsageError || (err instanceof TypeError && 'code' in err && String(err.code).startsWith('ERR_PARSE_ARGS'))
+    console.error(`techtorch-format: ${err instanceof Error ? err.message : String(err)}`)
+    if (usage) console.error('Run with --help for usage.')
+    process.exitCode = usage ? 2 : 1
+  })
@@ -0,0 +1,197 @@
+// Request parsing and error responses shared by the /api/format and /api/analyze route handlers.
+// Both take a multipart form with the document in a `file` field.
+
+import { ContentItem } from './content'
+import { CompiledRuleset, BUILT_IN_RULESETS, DEFAULT_RULESET, compileRuleset } from './rulesets'
+import { detectInputFormat } from './classifier'
+import { BUILT_IN_PROFILES, DEFAULT_STYLE_PROFILE, parseStyleProfile } from './style-profiles'
+import { FormatOptions } from './docx'
+import { BUILT_IN_TEMPLATES, DEFAULT_TEMPLATE } from './templates'
+import { DocumentVersion, DEFAULT_DOCUMENT_VERSION, isDocumentStatus, isValidDate, parseRevisions } from './revisions'
+import { Logo, DocumentLogos, MAX_LOGO_BYTES, readLogo } from './logos'
+import { extractContent } from './extract'
+import { ExportFormat, EXPORT_FORMATS, isExportFormat } from './export'
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024
+
+// Room for the other form fields (a style profile or ruleset can be a few kilobytes) and two logos
+const MAX_REQUEST_BYTES = MAX_UPLOAD_BYTES + 3 * 1024 * 1024
+
+export type ApiErrorCode =
+  | 'invalid_request'
+  | 'missing_file'
+  | 'file_too_large'
+  | 'unsupported_file_type'
+  | 'invalid_ruleset'
+  | 'invalid_profile'
+  | 'invalid_template'
+  | 'invalid_version'
+  | 'invalid_logo'
+  | 'invalid_format'
+  | 'unreadable_document'
+  | 'no_content'
+  | 'internal_error'
+
+// Error bodies are always { error: { code, message } } so callers can branch on the code
+export class ApiError extends Error {
+  constructor(public status: number, public code: ApiErrorCode, message: string) {
+    super(message)
+  }
+}
+
+export function errorResponse(err: unknown): Response {
+  const error = err instanceof ApiError ? err : new ApiError(500, 'internal_error', 'The document could not be processed')
+  return Response.json({ error: { code: error.code, message: error.message } }, { status: error.status })
+}
+
+export interface Upload {
+  file: File
+  form: FormData
+}
+
+export async function readUpload(request: Request): Promise<Upload> {
+  const length = Number(request.headers.get('content-length'))
+  if (length > MAX_REQUEST_BYTES) throw tooLarge()
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    throw new ApiError(400, 'invalid_request', 'Expected a multipart/form-data body')
+  }
+
+  const file = form.get('file')
+  if (!file || typeof file === 'string') throw new ApiError(400, 'missing_file', 'Attach the document in a "file" field')
+  if (file.size > MAX_UPLOAD_BYTES) throw tooLarge()
+  if (!detectInputFormat(file.name)) throw new ApiError(415, 'unsupported_file_type', 'Upload a .docx, .md or .txt file')
+
+  return { file, form }
+}
+
+function tooLarge(): ApiError {
+  return new ApiError(413, 'file_too_large', `Documents are limited to ${MAX_UPLOAD_BYTES / (1024 * 1024)} MB`)
+}
+
+// Damaged or password-protected files fail here rather than as a server error
+export async function readContent(file: File, rules: CompiledRuleset): Promise<ContentItem[]> {
+  let content: ContentItem[]
+  try {
+    content = await extractContent(file, rules)
+  } catch {
+    throw new ApiError(422, 'unreadable_document', `${file.name} could not be read`)
+  }
+  if (content.length === 0) throw new ApiError(422, 'no_content', `No content found in ${file.name}`)
+  return content
+}
+
+export function readText(form: FormData, name: string): string {
+  const value = form.get(name)
+  return typeof value === 'string' ? value.trim() : ''
+}
+
+// Checkbox-style flags: "true", "1" and "on" switch an option on, anything else sent switches it off
+function readFlag(form: FormData, name: string, fallback = false): boolean {
+  const value = readText(form, name).toLowerCase()
+  return value ? ['true', '1', 'on'].includes(value) : fallback
+}
+
+// `ruleset` is a built-in ruleset id. Custom rulesets are only taken by the page and the CLI: their
+// patterns run against every line, and one with catastrophic backtracking would tie up the server.
+export function readRules(form: FormData): CompiledRuleset {
+  const value = readText(form, 'ruleset')
+  if (!value) return compileRuleset(DEFAULT_RULESET)
+
+  const builtIn = BUILT_IN_RULESETS.find(ruleset => ruleset.id === value)
+  if (!builtIn) {
+    throw new ApiError(400, 'invalid_ruleset', `Unknown ruleset "${value}"; use one of ${BUILT_IN_RULESETS.map(r => r.id).join(', ')}`)
+  }
+  return compileRuleset(builtIn)
+}
+
+// `version`, `issueDate` (YYYY-MM-DD), `status` (draft or final) and `revisions`, a JSON array of
+// { version, date, author, changes }
+function readDocumentVersion(form: FormData): DocumentVersion {
+  const issueDate = readText(form, 'issueDate')
+  if (issueDate && !isValidDate(issueDate)) throw new ApiError(400, 'invalid_version', 'issueDate must be a YYYY-MM-DD date')
+  const status = readText(form, 'status').toLowerCase() || DEFAULT_DOCUMENT_VERSION.status
+  if (!isDocumentStatus(status)) throw new ApiError(400, 'invalid_version', 'status must be draft or final')
+
+  const revisions = readText(form, 'revisions')
+  try {
+    return {
+      version: readText(form, 'version') || DEFAULT_DOCUMENT_VERSION.version,
+      issueDate,
+      status,
+      revisions: revisions ? parseRevisions(revisions) : [],
+    }
+  } catch (err) {
+    throw new ApiError(400, 'invalid_version', err instanceof Error ? err.message : 'Invalid revisions')
+  }
+}
+
+// `format` is docx (the default), pdf, html or markdown
+export function readExportFormat(form: FormData): ExportFormat {
+  const format = readText(form, 'format').toLowerCase() || 'docx'
+  if (!isExportFormat(format)) {
+    throw new ApiError(400, 'invalid_format', `Unknown format "${format}"; use one of ${EXPORT_FORMATS.map(f => f.value).join(', ')}`)
+  }
+  return format
+}
+
+// `logo` (TechTorch's) and `clientLogo` are optional PNG, JPEG or SVG files
+async function readLogos(form: FormData): Promise<DocumentLogos> {
+  const readField = async (name: string): Promise<Logo | undefined> => {
+    const value = form.get(name)
+    if (!value) return undefined
+    if (typeof value === 'string') throw new ApiError(400, 'invalid_logo', `Attach ${name} as a file`)
+    if (value.size > MAX_LOGO_BYTES) throw new ApiError(400, 'invalid_logo', `Logos are limited to ${MAX_LOGO_BYTES / (1024 * 1024)} MB`)
+    try {
+      return readLogo(new Uint8Array(await value.arrayBuffer()), value.name)
+    } catch (err) {
+      throw new ApiError(400, 'invalid_logo', err instanceof Error ? err.message : 'Invalid logo')
+    }
+  }
+  return { company: await readField('logo'), client: await readField('clientLogo') }
+}
+
+// Same options as the page's checkboxes (`tocDepth` is 1-3); `profile` is a built-in profile id or a profile as JSON,
+// `template` a built-in template id. `header` and `footer` replace the template's text, even when sent empty.
+export async function readFormatOptions(form: FormData): Promise<FormatOptions> {
+  const value = readText(form, 'profile')
+  let profile = BUILT_IN_PROFILES.find(p => p.id === value) || DEFAULT_STYLE_PROFILE
+  if (value && profile.id !== value) {
+    try {
+      profile = parseStyleProfile(value)
+    } catch (err) {
+      throw new ApiError(400, 'invalid_profile', err instanceof Error ? err.message : 'Invalid style profile')
+    }
+  }
+
+  const templateId = readText(form, 'template')
+  const template = templateId ? BUILT_IN_TEMPLATES.find(t => t.id === templateId) : DEFAULT_TEMPLATE
+  if (!template) {
+    throw new ApiError(400, 'invalid_template', `Unknown template "${templateId}"; use one of ${BUILT_IN_TEMPLATES.map(t => t.id).join(', ')}`)
+  }
+
+  const tocDepth = readText(form, 'tocDepth')
+  if (tocDepth && !['1', '2', '3'].includes(tocDepth)) throw new ApiError(400, 'invalid_request', 'tocDepth must be 1, 2 or 3')
+
+  return {
+    figureCaptions: readFlag(form, 'figureCaptions'),
+    codeLanguageLabels: readFlag(form, 'codeLanguageLabels'),
+    codeLineNumbers: readFlag(form, 'codeLineNumbers'),
+    headingNumbers: readFlag(form, 'headingNumbers'),
+    tableOfContents: readFlag(form, 'tableOfContents', true),
+    tocDepth: tocDepth ? Number(tocDepth) : undefined,
+    profile,
+    template,
+    documentVersion: readDocumentVersion(form),
+    header: form.has('header') ? readText(form, 'header') : undefined,
+    footer: form.has('footer') ? readText(form, 'footer') : undefined,
+    confidentiality: readText(form, 'confidentiality'),
+    differentFirstPage: readFlag(form, 'differentFirstPage', true),
+    draftWatermark: readFlag(form, 'draftWatermark'),
+    logos: await readLogos(form),
+    headerLogos: readFlag(form, 'headerLogos'),
+  }
+}
@@ -0,0 +1,27 @@
+// Callouts: notes, tips and warnings set apart from the body in a shaded box with their label
+
+export type CalloutKind = 'note' | 'tip' | 'important' | 'warning' | 'caution'
+
+export const CALLOUT_LABELS: Record<CalloutKind, string> = {
+  note: 'Note',
+  tip: 'Tip',
+  important: 'Important',
+  warning: 'Warning',
+  caution: 'Caution',
+}
+
+export const CALLOUT_KINDS = Object.keys(CALLOUT_LABELS) as CalloutKind[]
+
+export function isCalloutKind(value: string): value is CalloutKind {
+  return Object.prototype.hasOwnProperty.call(CALLOUT_LABELS, value)
+}
+
+// "Note:", "WARNING:", Markdown bold "**Tip:**" or "**Tip**:", or a GitHub alert such as "[!CAUTION]"
+const CALLOUT_PREFIX_PATTERN = /^(?:\[!(note|tip|important|warning|caution)\]|(\*\*|__)?(note|tip|important|warning|caution)(?:\2\s*:|\s*:\2))\s*/i
+
+// The kind of callout a line opens with, and how many characters its label takes up
+export function matchCalloutPrefix(text: string): { kind: CalloutKind; length: number } | null {
+  const match = CALLOUT_PREFIX_PATTERN.exec(text)
+  if (!match) return null
+  return { kind: (match[1] || match[3]).toLowerCase() as CalloutKind, length: match[0].length }
+}
@@ -0,0 +1,775 @@
+// Turns document HTML or plain text into classified content items. Framework-free, so it
+// runs the same in the browser, in Node scripts and under the test runner.
+
+import {
+  TextSpan,
+  TableCellData,
+  TableRowData,
+  ImageData,
+  ContentItem,
+  MAX_LIST_DEPTH,
+  isListItem,
+  trimRuns,
+  sliceRuns,
+  expandTabs,
+  dedentLines,
+  renumberLists,
+} from './content'
+import { CompiledRuleset, DEFAULT_COMPILED_RULESET } from './rulesets'
+import { parseMarkdown } from './markdown'
+import { detectCodeLanguage } from './code-languages'
+import { CalloutKind, CALLOUT_KINDS, CALLOUT_LABELS, isCalloutKind, matchCalloutPrefix } from './callouts'
+
+// Check if text looks like a header based on multiple signals
+export function analyzeHeaderProbability(text: string, prevText: string | null, nextText: string | null, rules: CompiledRuleset): number {
+  let score = 0
+  const trimmed = text.trim()
+  
+  // Length check - headers are usually short
+  if (trimmed.length < 80) score += 15
+  if (trimmed.length < 50) score += 10
+  if (trimmed.length > 150) score -= 30
+  
+  // Numbered section pattern (strongest signal)
+  if (/^\d+\.\d+\.\d+\s+[A-Z]/.test(trimmed)) return 95  // Definitely H3
+  if (/^\d+\.\d+\s+[A-Z]/.test(trimmed)) return 95       // Definitely H2
+  if (/^\d+\.\s+[A-Z]/.test(trimmed)) return 95          // Definitely H1
+  
+  // Keyword match
+  const keywordScores = rules.headerKeywordScores
+  for (const keyword of rules.headerKeywords) {
+    if (trimmed === keyword) return keywordScores.exact
+    if (trimmed.startsWith(keyword + ':')) return keywordScores.colon
+    if (trimmed.startsWith(keyword + ' ')) score += keywordScores.prefix
+    if (trimmed.toLowerCase().includes(keyword.toLowerCase())) score += keywordScores.mention
+  }
+  
+  // Title case pattern (Most Words Capitalized)
+  const words = trimmed.split(/\s+/)
+  const capitalizedWords = words.filter(w => /^[A-Z]/.test(w))
+  if (words.length >= 2 && capitalizedWords.length >= words.length * 0.7) score += 15
+  
+  // No ending punctuation (headers usually don't end with period)
+  if (!trimmed.endsWith('.') && !trimmed.endsWith(',')) score += 10
+  if (trimmed.endsWith('.')) score -= 15
+  
+  // Previous line ends with colon or is empty (common before headers)
+  if (prevText === null || prevText.trim() === '') score += 10
+  
+  // Next line is much longer (body text follows header)
+  if (nextText && nextText.length > trimmed.length * 2) score += 10
+  
+  // Contains colon mid-text (like "Screen 1: Selection")
+  if (/^[\w\s]+:\s*[\w\s]+$/.test(trimmed) && trimmed.length < 60) score += 20
+  
+  // All caps (sometimes used for headers)
+  if (trimmed === trimmed.toUpperCase() && trimmed.length > 3 && trimmed.length < 50) score += 15
+  
+  return Math.min(score, 100)
+}
+
+// Check if text is likely part of a code block
+export function analyzeCodeProbability(text: string, context: string[], rules: CompiledRuleset): number {
+  let score = 0
+  const trimmed = text.trim()
+  
+  // Direct pattern matches
+  for (const { regex, weight } of rules.codePatterns) {
+    if (regex.test(trimmed)) score += weight
+  }
+  
+  // Indentation (code is often indented)
+  if (text.startsWith('    ') || text.startsWith('\t')) score += 20
+  
+  // Contains typical code characters
+  if (/[{}\[\]();]/.test(trimmed)) score += 15
+  if (/\b\w+\.\w+\(/.test(trimmed)) score += 15  // Method calls
+  if (/=\s*['"]/.test(trimmed)) score += 10  // String assignment
+  if (/=\s*\d+/.test(trimmed)) score += 10  // Number assignment
+  
+  // Very short lines that look like code fragments
+  if (trimmed.length < 30 && /^[\w_]+[,;]?$/.test(trimmed)) score += 15
+  
+  // Check context - if surrounded by code-like lines
+  const codeNeighbors = context.filter(c => rules.codePatterns.some(p => p.regex.test(c))).length
+  if (codeNeighbors >= 2) score += 20
+  
+  return Math.min(score, 100)
+}
+
+// Check if text should be a bullet point
+export function analyzeBulletProbability(text: string, prevText: string | null, isAfterListIntro: boolean, rules: CompiledRuleset): number {
+  let score = 0
+  const trimmed = text.trim()
+  
+  // Explicit bullet markers
+  if (/^[•\-\*\u2022\u2023\u25E6\u2043\u2219\u25AA\u25AB]\s/.test(trimmed)) return 95
+  
+  // If previous line introduced a list
+  if (isAfterListIntro) score += 40
+  
+  // Short, self-contained statement
+  if (trimmed.length < 100 && trimmed.length > 10) score += 10
+  
+  // Starts with action verb or gerund (common in bullets)
+  for (const { regex, weight } of rules.bulletPatterns) {
+    if (regex.test(trimmed)) score += weight
+  }
+  
+  // Doesn't start with "The" or "This" (more likely body text)
+  if (/^(The|This|That|These|Those|It)\s/.test(trimmed) && trimmed.length > 80) score -= 20
+  
+  // Multiple short lines in sequence are likely bullets
+  if (prevText && prevText.length < 100 && trimmed.length < 100) score += 10
+  
+  // Ends without period but has content
+  if (!trimmed.endsWith('.') && trimmed.length > 20) score += 5
+  
+  return Math.min(score, 100)
+}
+
+// Determine heading level based on numbering pattern
+export function getHeadingLevel(text: string): 'heading1' | 'heading2' | 'heading3' | null {
+  const trimmed = text.trim()
+  
+  if (/^\d+\.\d+\.\d+\s/.test(trimmed)) return 'heading3'
+  if (/^\d+\.\d+\s/.test(trimmed)) return 'heading2'
+  if (/^\d+\.\s/.test(trimmed)) return 'heading1'
+  
+  // Check for letter-based numbering
+  if (/^[a-z]\)\s/i.test(trimmed)) return 'heading3'
+  if (/^[ivxIVX]+\.\s/.test(trimmed)) return 'heading2'
+  
+  return null
+}
+
+export type InputFormat = 'docx' | 'markdown' | 'text'
+
+export function detectInputFormat(fileName: string): InputFormat | null {
+  const name = fileName.toLowerCase()
+  if (name.endsWith('.docx')) return 'docx'
+  if (name.endsWith('.md') || name.endsWith('.markdown')) return 'markdown'
+  if (name.endsWith('.txt')) return 'text'
+  return null
+}
+
+// Markdown maps deterministically; plain text goes through the same heuristics as .docx
+export function extractTextContent(text: string, format: 'markdown' | 'text', rules: CompiledRuleset = DEFAULT_COMPILED_RULESET): ContentItem[] {
+  if (format === 'markdown') return parseMarkdown(text)
+  return classifyLines(text.replace(/\r\n?/g, '\n').split('\n').map(line => ({ text: line, runs: [{ text: line }] })), rules)
+}
+
+// Classify the HTML mammoth produces from a .docx; `images` resolves its placeholder image sources
+export function classifyHtml(html: string, images: ImageData[] = [], rules: CompiledRuleset = DEFAULT_COMPILED_RULESET): ContentItem[] {
+  return classifyLines(parseHtmlToLines(html, images), rules)
+}
+
+// Turn extracted lines into content items: source structure first, heuristics for the rest
+export function classifyLines(lines: ParsedLine[], rules: CompiledRuleset = DEFAULT_COMPILED_RULESET): ContentItem[] {
+  // Filter empty lines but track where they were (for context)
+  // `raw` keeps the line's indentation (tabs expanded) for code detection and code blocks
+  const nonEmptyLines = lines.map((line, i) => ({ text: line.text.trim(), raw: expandTabs(line.text).trimEnd(), runs: trimRuns(line.runs), table: line.table, image: line.image, block: line.block, originalIndex: i, wasEmpty: line.text.trim() === '' }))
+    .filter(l => l.text !== '' || l.image)
+  
+  // When the author used real heading styles, untagged paragraphs are never promoted to headings
+  const hasStyledHeadings = nonEmptyLines.some(l => l.block?.kind === 'heading')
+  
+  const content: ContentItem[] = []
+  let i = 0
+  let numberedListCounter = 0
+  let listIndents: number[] = []
+  let lastListIntroIndex = -10  // Track when we saw a list introduction
+  
+  while (i < nonEmptyLines.length) {
+    const current = nonEmptyLines[i]
+    const text = current.text
+    const prev = i > 0 ? nonEmptyLines[i - 1].text : null
+    const next = i < nonEmptyLines.length - 1 ? nonEmptyLines[i + 1].text : null
+    
+    // === TABLES ===
+    // Tables come through structurally from the HTML, so no guessing is needed
+    if (current.table) {
+      const box = readBoxCallout(current.table, rules)
+      if (box) {
+        content.push({ type: 'callout', ...box, confidence: 90, source: 'structure' })
+        i++
+        numberedListCounter = 0
+        continue
+      }
+      content.push({ type: 'table', text, rows: current.table, confidence: 100, source: 'structure' })
+      i++
+      numberedListCounter = 0
+      continue
+    }
+    
+    // === IMAGES ===
+    // A "Figure N: ..." line right under an image is its caption, not body text
+    if (current.image) {
+      const hasCaption = next !== null && FIGURE_CAPTION_PATTERN.test(next)
+      content.push({ type: 'image', text: '', image: current.image, caption: hasCaption ? next : undefined, confidence: 100, source: 'structure' })
+      i += hasCaption ? 2 : 1
+      numberedListCounter = 0
+      continue
+    }
+    
+    // === SOURCE STYLES ===
+    // Word heading styles and real lists are authoritative; only untagged lines are guessed at
+    const block = current.block
+    if (block?.kind === 'heading') {
+      const level = Math.min(block.level, 3) as 1 | 2 | 3
+      content.push({ type: `heading${level}`, text, runs: current.runs, confidence: 100, source: 'structure' })
+      i++
+      numberedListCounter = 0
+      continue
+    }
+    if (block?.kind === 'list') {
+      if (block.ordered && block.depth === 0) numberedListCounter = block.number
+      content.push({
+        type: block.ordered ? 'numbered' : 'bullet',
+        text,
+        runs: current.runs,
+        number: block.ordered ? block.number : undefined,
+        depth: Math.min(block.depth, MAX_LIST_DEPTH),
+        confidence: 100,
+        source: 'structure',
+      })
+      i++
+      continue
+    }
+    
+    // Get context (surrounding lines)
+    const context = nonEmptyLines.slice(Math.max(0, i - 3), Math.min(nonEmptyLines.length, i + 4)).map(l => l.text)
+    
+    // Check if this line introduces a list; a callout label such as "Tip:" ending in a colon doesn't
+    const prefix = matchCalloutPrefix(text)
+    const isListIntro = !prefix && rules.listIntroPatterns.some(p => p.test(text))
+    if (isListIntro) lastListIntroIndex = i
+    
+    const isAfterListIntro = i - lastListIntroIndex <= 5 && i > lastListIntroIndex
+    
+    // === CALLOUTS ===
+    // Lines opening with a label such as "Note:" or "Warning:", and shaded or boxed paragraphs in the
+    // source unless they look even a little like code (the bar for continuing a code block). A label
+    // alone on its line takes the next line as its text; an unlabeled shaded paragraph continues the
+    // shaded callout above it, or is a note.
+    const shaded = block?.kind === 'callout' && (prefix !== null || analyzeCodeProbability(current.raw, context, rules) < 40)
+    if (prefix || shaded) {
+      const labelOnly = prefix !== null && prefix.length >= text.length
+      const following = nonEmptyLines[i + 1]
+      if (!labelOnly || (following && !following.table && !following.image && (!following.block || following.block.kind === 'callout'))) {
+        const previousItem = content[content.length - 1]
+        const continues = previousItem?.type === 'callout' && nonEmptyLines[i - 1].block?.kind === 'callout'
+        const kind: CalloutKind = prefix?.kind || (block?.kind === 'callout' && block.callout) || (continues && previousItem.callout) || 'note'
+        const labelLength = prefix ? prefix.length : 0
+        content.push({
+          type: 'callout',
+          callout: kind,
+          text: labelOnly ? following.text : text.slice(labelLength),
+          runs: labelOnly ? following.runs : sliceRuns(current.runs, labelLength),
+          confidence: prefix ? 95 : 85,
+          source: block?.kind === 'callout' ? 'structure' : undefined,
+        })
+        i += labelOnly ? 2 : 1
+        numberedListCounter = 0
+        continue
+      }
+    }
+    
+    // === CODE BLOCK DETECTION ===
+    const codeProb = analyzeCodeProbability(current.raw, context, rules)
+    if (codeProb >= 60) {
+      // Collect consecutive code lines, with the blank lines that separated them in the source
+      const codeLines: string[] = [current.raw]
+      let j = i + 1
+      while (j < nonEmptyLines.length) {
+        const nextLine = nonEmptyLines[j]
+        const nextCodeProb = analyzeCodeProbability(nextLine.raw, context, rules)
+        // Continue if it's code OR if it's a short line between code lines
+        if (nextCodeProb >= 40 || (nextLine.text.length < 30 && j + 1 < nonEmptyLines.length && analyzeCodeProbability(nonEmptyLines[j + 1].raw, context, rules) >= 50)) {
+          const blankLines = nextLine.originalIndex - nonEmptyLines[j - 1].originalIndex - 1
+          codeLines.push(...Array(blankLines).fill(''), nextLine.raw)
+          j++
+        } else {
+          break
+        }
+      }
+      
+      if (codeLines.length >= 2 || codeProb >= 80) {
+        const dedented = dedentLines(codeLines)
+        content.push({ type: 'code_block', lines: dedented, language: detectCodeLanguage(dedented), confidence: codeProb })
+        i = j
+        numberedListCounter = 0
+        continue
+      }
+    }
+    
+    // === LIST NESTING ===
+    // Deeper indentation than the list item above nests under it; `listIndents` holds one indent per open level
+    const indent = current.raw.length - current.raw.trimStart().length
+    const previousItem = content[content.length - 1]
+    if (!previousItem || !isListItem(previousItem)) listIndents = []
+    // Anything indented past the list's top level belongs to the open list
+    const isNested = listIndents.length > 0 && indent > listIndents[0]
+    const listDepth = () => {
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop()
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) listIndents.push(indent)
+      return Math.min(listIndents.length - 1, MAX_LIST_DEPTH)
+    }
+    
+    // === HEADER DETECTION ===
+    // Lines indented under a list item belong to the list, even when numbered like "1. Title"
+    const headerProb = hasStyledHeadings || isNested ? 0 : analyzeHeaderProbability(text, prev, next, rules)
+    const headingLevel = hasStyledHeadings || isNested ? null : getHeadingLevel(text)
+    
+    if (headingLevel) {
+      content.push({ type: headingLevel, text, runs: current.runs, confidence: 95 })
+      i++
+      numberedListCounter = 0
+      continue
+    }
+    
+    if (headerProb >= 70) {
+      // Determine level based on context and patterns
+      let level: 'heading1' | 'heading2' | 'heading3' = 'heading1'
+      
+      // If it's a sub-topic keyword, make it H2
+      if (rules.subheadingKeywords.some(k => text.startsWith(k))) level = 'heading2'
+      
+      // If very short and after another header, might be H3
+      if (text.length < 30 && prev && analyzeHeaderProbability(prev, null, text, rules) >= 50) level = 'heading3'
+      
+      content.push({ type: level, text, runs: current.runs, confidence: headerProb })
+      i++
+      numberedListCounter = 0
+      continue
+    }
+    
+    // === NUMBERED LIST DETECTION ===
+    // Nested levels may also be lettered or in roman numerals ("a.", "iv)")
+    const numberedMatch = text.match(/^(\d+)[.)]\s+(.+)/) || (isNested ? text.match(/^([a-z]|[ivx]+)[.)]\s+(.+)/) : null)
+    if (numberedMatch) {
+      const num = parseInt(numberedMatch[1])
+      // Check if this continues a sequence or starts a new one
+      if (isNested || num === 1 || num === numberedListCounter + 1) {
+        const depth = listDepth()
+        if (depth === 0) numberedListCounter = num
+        content.push({ type: 'numbered', text: numberedMatch[2], runs: sliceRuns(current.runs, text.length - numberedMatch[2].length), number: num, depth })
+        i++
+        continue
+      }
+    }
+    
+    // === BULLET DETECTION ===
+    const bulletProb = analyzeBulletProbability(text, prev, isAfterListIntro, rules)
+    
+    // Check for explicit bullet markers
+    const bulletMatch = text.match(/^[•\-\*\u2022]\s*(.+)/)
+    if (bulletMatch) {
+      content.push({ type: 'bullet', text: bulletMatch[1], runs: sliceRuns(current.runs, text.length - bulletMatch[1].length), depth: listDepth(), confidence: 95 })
+      i++
+      continue
+    }
+    
+    // Secondary glyphs mark sub-bullets even without indentation; a run of the same glyph stays on one level
+    const subBulletMatch = text.match(/^[\u25E6\u25AA\u25AB\u2023\u2043\u2219\-]\s*(.+)/)
+    if (subBulletMatch && previousItem && isListItem(previousItem)) {
+      const indentChanged = listIndents.length > 0 && indent !== listIndents[listIndents.length - 1]
+      const depth = indentChanged ? listDepth()
+        : prev !== null && prev[0] === text[0] ? previousItem.depth || 0
+        : Math.min((previousItem.depth || 0) + 1, MAX_LIST_DEPTH)
+      content.push({ type: 'bullet', text: subBulletMatch[1], runs: sliceRuns(current.runs, text.length - subBulletMatch[1].length), depth, confidence: 90 })
+      i++
+      continue
+    }
+    
+    // Infer bullet from context
+    if (bulletProb >= 60 && text.length < 120) {
+      content.push({ type: 'bullet', text, runs: current.runs, depth: listDepth(), confidence: bulletProb })
+      i++
+      continue
+    }
+    
+    // === DEFAULT: PARAGRAPH ===
+    // Reset numbered counter if we hit a paragraph
+    numberedListCounter = 0
+    content.push({ type: 'paragraph', text, runs: current.runs, confidence: 100 - headerProb - bulletProb })
+    i++
+  }
+  
+  // Post-processing: Fix sequences that should be bullets
+  return renumberLists(postProcessContent(content, rules).map(item => (item.source ? item : { ...item, source: 'heuristic' })))
+}
+
+// Marker style given to paragraphs shaded or boxed by direct formatting before conversion (see extract)
+export const SHADED_PARAGRAPH_STYLE_ID = 'TechTorchShaded'
+
+// A single-cell table is a box drawn around text, and read as a callout unless it holds code. The
+// kind comes from a label opening the text ("Note:") or standing as its first paragraph ("WARNING").
+function readBoxCallout(rows: TableRowData[], rules: CompiledRuleset): Pick<ContentItem, 'callout' | 'text' | 'runs'> | null {
+  const cells = rows.flatMap(row => row.cells)
+  if (cells.length !== 1 || cells[0].paragraphs.length === 0) return null
+  let paragraphs = cells[0].paragraphs
+  const texts = paragraphs.map(p => p.map(span => span.text).join(''))
+  if (texts.some(text => analyzeCodeProbability(text, texts, rules) >= 40)) return null
+
+  const heading = texts[0].trim().replace(/[:!]$/, '').toLowerCase()
+  const labeled = paragraphs.length > 1 && isCalloutKind(heading)
+  if (labeled) paragraphs = paragraphs.slice(1)
+  const runs = trimRuns(paragraphs.flatMap((p, index) => (index > 0 ? [{ text: ' ' }, ...p] : p)))
+  const text = runs.map(span => span.text).join('')
+  const prefix = labeled ? null : matchCalloutPrefix(text)
+  const labelLength = prefix && prefix.length < text.length ? prefix.length : 0
+  return {
+    callout: labeled ? (heading as CalloutKind) : prefix?.kind || 'note',
+    text: text.slice(labelLength),
+    runs: sliceRuns(runs, labelLength),
+  }
+}
+
+// Extra mammoth style mappings so inline formatting it ignores by default survives, and callout
+// styles ("Note", "Warning Box") and shaded paragraphs come through as marked paragraphs
+export const MAMMOTH_STYLE_MAP = [
+  'u => u',
+  "r[style-name='HTML Code'] => code",
+  "r[style-name='Code Char'] => code",
+  ...CALLOUT_KINDS.map(kind => `p[style-name^='${CALLOUT_LABELS[kind]}'] => p.callout-${kind}:fresh`),
+  `p.${SHADED_PARAGRAPH_STYLE_ID} => p.callout:fresh`,
+]
+
+// Placeholder <img> src pointing into the image list collected during conversion
+export const IMAGE_SRC_PREFIX = 'techtorch-image:'
+
+// Matches existing captions such as "Figure 3: Login screen" or "Fig. 2 - Flow"
+export const FIGURE_CAPTION_PATTERN = /^(Figure|Fig\.?)\s*\d+\s*[:.\-\u2013\u2014]?\s*/i
+
+// Image formats the docx writer can embed directly (no EMF, WMF, TIFF or SVG)
+const IMAGE_TYPES: Record<string, ImageData['type']> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+}
+
+// Work out the docx image type and pixel size from the raw bytes
+export function readImageData(data: Uint8Array, contentType: string): ImageData | null {
+  const type = IMAGE_TYPES[contentType.toLowerCase()]
+  if (!type) return null
+  
+  const size = readImageSize(data, type) || { width: 624, height: 468 }
+  return { data, type, ...size }
+}
+
+function readImageSize(data: Uint8Array, type: ImageData['type']): { width: number; height: number } | null {
+  const u16be = (o: number) => (data[o] << 8) | data[o + 1]
+  const u16le = (o: number) => data[o] | (data[o + 1] << 8)
+  const u32be = (o: number) => ((data[o] << 24) | (data[o + 1] << 16) | (data[o + 2] << 8) | data[o + 3]) >>> 0
+  const i32le = (o: number) => data[o] | (data[o + 1] << 8) | (data[o + 2] << 16) | (data[o + 3] << 24)
+  
+  switch (type) {
+    case 'png':
+      // Width and height live in the IHDR chunk right after the signature
+      if (data.length < 24) return null
+      return { width: u32be(16), height: u32be(20) }
+    case 'gif':
+      if (data.length < 10) return null
+      return { width: u16le(6), height: u16le(8) }
+    case 'bmp':
+      if (data.length < 26) return null
+      return { width: Math.abs(i32le(18)), height: Math.abs(i32le(22)) }
+    case 'jpg': {
+      // Walk the segment markers until a start-of-frame header
+      let offset = 2
+      while (offset + 9 < data.length) {
+        if (data[offset] !== 0xff) return null
+        const marker = data[offset + 1]
+        const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc
+        if (isStartOfFrame) return { width: u16be(offset + 7), height: u16be(offset + 5) }
+        offset += 2 + u16be(offset + 2)
+      }
+      return null
+    }
+  }
+}
+
+// A block-level line of text together with its inline formatting
+export interface ParsedLine {
+  text: string
+  runs: TextSpan[]
+  table?: TableRowData[] // Set when the line stands for a whole table; `text` is its flattened content
+  image?: ImageData // Set when the line is a standalone image
+  block?: BlockStyle // Heading or list semantics taken from the source's own styles
+}
+
+export type BlockStyle =
+  | { kind: 'heading'; level: number }
+  | { kind: 'list'; ordered: boolean; depth: number; number: number }
+  | { kind: 'callout'; callout?: CalloutKind } // Shaded or boxed; the kind when the source style names one
+
+// Parse HTML to extract lines with some structure awareness
+export function parseHtmlToLines(html: string, images: ImageData[] = []): ParsedLine[] {
+  const lines: ParsedLine[] = []
+  
+  // Simple regex-based extraction (works in browser without DOM)
+  // Remove scripts and styles
+  let cleaned = html.replace(/<script[^>]*>[\s\S]*?<\/script>/gi, '')
+  cleaned = cleaned.replace(/<style[^>]*>[\s\S]*?<\/style>/gi, '')
+  
+  // Walk tags and text in order, tracking which inline styles are open
+  const open = { bold: 0, italic: 0, underline: 0, strike: 0, code: 0 }
+  const links: (string | undefined)[] = []
+  let spans: TextSpan[] = []
+  
+  // Table state; nested tables are flattened into paragraphs of the outer cell
+  let tableDepth = 0
+  let tableRows: TableRowData[] = []
+  let inTableHead = false
+  let cell: TableCellData | null = null
+  
+  // Heading/list context of the line being built; `lists` has one entry per open <ul>/<ol>
+  let block: BlockStyle | undefined
+  const lists: { ordered: boolean; count: number }[] = []
+  
+  // Line text keeps its leading whitespace for code detection; the runs are trimmed.
+  // Empty paragraphs become blank lines when keepEmpty is set.
+  const flush = (keepEmpty = false) => {
+    const text = spans.map(s => s.text).join('').trimEnd()
+    const runs = trimRuns(spans)
+    spans = []
+    if (runs.length === 0) {
+      if (keepEmpty && tableDepth === 0) lines.push({ text: '', runs: [] })
+      return
+    }
+    if (cell) {
+      cell.paragraphs.push(runs)
+      return
+    }
+    lines.push({ text, runs, block })
+    block = undefined
+  }
+  
+  const pushText = (text: string) => {
+    const span: TextSpan = { text }
+    if (open.bold) span.bold = true
+    if (open.italic) span.italic = true
+    if (open.underline) span.underline = true
+    if (open.strike) span.strike = true
+    if (open.code) span.code = true
+    const link = links[links.length - 1]
+    if (link) span.link = link
+    spans.push(span)
+  }
+  
+  const tokenPattern = /<(\/?)([a-z][a-z0-9]*)([^>]*)>|([^<]+)/gi
+  let match: RegExpExecArray | null
+  while ((match = tokenPattern.exec(cleaned)) !== null) {
+    const [, closing, rawTag, attrs, textNode] = match
+    
+    if (textNode !== undefined) {
+      // Text nodes rarely contain newlines, but treat them as line breaks if they do
+      const parts = decodeEntities(textNode).split('\n')
+      parts.forEach((part, idx) => {
+        if (idx > 0) flush()
+        if (part) pushText(part)
+      })
+      continue
+    }
+    
+    const tag = rawTag.toLowerCase()
+    const delta = closing ? -1 : 1
+    
+    // Images become their own line, splitting any paragraph they sit in.
+    // Pictures inside table cells are dropped since cells only hold text.
+    if (tag === 'img') {
+      const src = attrs.match(/src\s*=\s*"([^"]*)"/i)?.[1] || ''
+      const image = src.startsWith(IMAGE_SRC_PREFIX) ? images[parseInt(src.slice(IMAGE_SRC_PREFIX.length))] : undefined
+      if (image && !cell) {
+        flush()
+        const alt = attrs.match(/alt\s*=\s*"([^"]*)"/i)?.[1]
+        lines.push({ text: '', runs: [], image: alt ? { ...image, altText: decodeEntities(alt) } : image })
+      }
+      continue
+    }
+    
+    // Table structure (outermost table only)
+    if (tag === 'table') {
+      flush()
+      if (!closing) {
+        tableDepth++
+        if (tableDepth === 1) tableRows = []
+      } else if (tableDepth > 0) {
+        tableDepth--
+        if (tableDepth === 0) {
+          cell = null
+          const rows = finalizeTableRows(tableRows)
+          const text = rows.flatMap(r => r.cells.flatMap(c => c.paragraphs.map(p => p.map(s => s.text).join('')))).join(' ')
+          if (rows.length > 0) lines.push({ text, runs: [{ text }], table: rows })
+        }
+      }
+      continue
+    }
+    if (tableDepth === 1) {
+      if (tag === 'thead') {
+        inTableHead = !closing
+        continue
+      }
+      if (tag === 'tr') {
+        flush()
+        if (!closing) tableRows.push({ cells: [], header: inTableHead || undefined })
+        continue
+      }
+      if (tag === 'td' || tag === 'th') {
+        flush()
+        if (closing) {
+          cell = null
+        } else {
+          if (tableRows.length === 0) tableRows.push({ cells: [] })
+          cell = { paragraphs: [] }
+          const colSpan = parseInt(attrs.match(/colspan\s*=\s*"(\d+)"/i)?.[1] || '1')
+          const rowSpan = parseInt(attrs.match(/rowspan\s*=\s*"(\d+)"/i)?.[1] || '1')
+          if (colSpan > 1) cell.colSpan = colSpan
+          if (rowSpan > 1) cell.rowSpan = rowSpan
+          const row = tableRows[tableRows.length - 1]
+          row.cells.push(cell)
+          // A row is a header if it sits in <thead> or consists only of <th> cells
+          if (!inTableHead) row.header = tag === 'th' && (row.cells.length === 1 || row.header) ? true : undefined
+        }
+        continue
+      }
+    }
+    
+    // Headings and lists carry their semantics along with the line (table cells stay flat text)
+    if (!cell && /^h[1-6]$/.test(tag)) {
+      flush()
+      block = closing ? undefined : { kind: 'heading', level: parseInt(tag[1]) }
+      continue
+    }
+    if (tag === 'ul' || tag === 'ol') {
+      flush()
+      if (!closing) lists.push({ ordered: tag === 'ol', count: 0 })
+      else lists.pop()
+      continue
+    }
+    if (!cell && tag === 'li' && lists.length > 0) {
+      flush()
+      if (closing) {
+        block = undefined
+      } else {
+        const list = lists[lists.length - 1]
+        list.count++
+        block = { kind: 'list', ordered: list.ordered, depth: lists.length - 1, number: list.count }
+      }
+      continue
+    }
+    
+    // Block elements end the current line
+    if (/^(p|div|h[1-6]|li|tr|td|th|br)$/.test(tag)) {
+      flush(tag === 'p' && !!closing)
+      // Callout paragraphs come from the style map (see MAMMOTH_STYLE_MAP)
+      if (tag === 'p' && !cell) {
+        const callout = closing ? null : attrs.match(/class\s*=\s*"callout(?:-([a-z]+))?"/i)
+        if (callout) block = { kind: 'callout', callout: callout[1] && isCalloutKind(callout[1]) ? callout[1] : undefined }
+        else if (block?.kind === 'callout') block = undefined
+      }
+      // List items in table cells have no list structure - add bullet marker
+      if (tag === 'li' && !closing) spans.push({ text: '• ' })
+      continue
+    }
+    
+    switch (tag) {
+      case 'strong':
+      case 'b':
+        open.bold = Math.max(0, open.bold + delta)
+        break
+      case 'em':
+      case 'i':
+        open.italic = Math.max(0, open.italic + delta)
+        break
+      case 'u':
+        open.underline = Math.max(0, open.underline + delta)
+        break
+      case 's':
+      case 'del':
+      case 'strike':
+        open.strike = Math.max(0, open.strike + delta)
+        break
+      case 'code':
+        open.code = Math.max(0, open.code + delta)
+        break
+      case 'a':
+        if (closing) {
+          links.pop()
+        } else {
+          // Bookmark anchors (<a id="...">) and internal cross-references aren't external links
+          const href = attrs.match(/href\s*=\s*"([^"]*)"/i)
+          links.push(href && !href[1].startsWith('#') ? decodeEntities(href[1]) : undefined)
+        }
+        break
+    }
+  }
+  flush()
+  
+  return lines
+}
+
+// Drop empty rows and infer a header row when the source didn't mark one
+function finalizeTableRows(rows: TableRowData[]): TableRowData[] {
+  const result = rows.filter(r => r.cells.length > 0)
+  
+  // A fully bold first row is almost always a header, even without Word's "repeat header row"
+  if (result.length > 1 && !result.some(r => r.header)) {
+    const first = result[0]
+    const allBold = first.cells.every(c =>
+      c.paragraphs.length > 0 && c.paragraphs.every(p => p.every(span => span.bold || span.text.trim() === ''))
+    )
+    if (allBold) first.header = true
+  }
+  
+  return result
+}
+
+// Decode the HTML entities mammoth emits
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, dec) => String.fromCodePoint(parseInt(dec, 10)))
+    .replace(/&amp;/g, '&')
+}
+
+// Post-process to fix common patterns
+function postProcessContent(content: ContentItem[], rules: CompiledRuleset): ContentItem[] {
+  const result: ContentItem[] = []
+  
+  for (let i = 0; i < content.length; i++) {
+    const item = content[i]
+    const prev = i > 0 ? result[result.length - 1] : null
+    const next = i < content.length - 1 ? content[i + 1] : null
+    
+    // If we have multiple short paragraphs in sequence after a list intro, convert to bullets
+    if (item.type === 'paragraph' && item.text && item.text.length < 100) {
+      // Check if previous item ends with colon or is a list intro
+      if (prev && prev.text && rules.listIntroPatterns.some(p => p.test(prev.text || ''))) {
+        result.push({ ...item, type: 'bullet' })
+        continue
+      }
+      
+      // Check if surrounded by bullets
+      if (prev?.type === 'bullet' && next?.type === 'bullet') {
+        result.push({ ...item, type: 'bullet', depth: prev.depth })
+        continue
+      }
+    }
+    
+    // If a "paragraph" is very short and follows a heading, might be a subtitle - keep as paragraph
+    // but we handle this in document creation
+    
+    result.push(item)
+  }
+  
+  return result
+}
@@ -0,0 +1,242 @@
+// Code block languages: detection and syntax highlighting tokens
+
+export type CodeLanguage = 'sql' | 'apex' | 'javascript' | 'json' | 'xml' | 'shell'
+
+export const CODE_LANGUAGE_LABELS: Record<CodeLanguage, string> = {
+  sql: 'SQL',
+  apex: 'Apex',
+  javascript: 'JavaScript',
+  json: 'JSON',
+  xml: 'XML',
+  shell: 'Shell',
+}
+
+// Fence names and file extensions that map onto a supported language
+const CODE_LANGUAGE_ALIASES: Record<string, CodeLanguage> = {
+  sql: 'sql', soql: 'sql', sosl: 'sql', plsql: 'sql', tsql: 'sql',
+  apex: 'apex', cls: 'apex', trigger: 'apex',
+  javascript: 'javascript', js: 'javascript', jsx: 'javascript', mjs: 'javascript',
+  typescript: 'javascript', ts: 'javascript', tsx: 'javascript',
+  json: 'json', jsonc: 'json',
+  xml: 'xml', html: 'xml', xhtml: 'xml', svg: 'xml', soap: 'xml',
+  shell: 'shell', sh: 'shell', bash: 'shell', zsh: 'shell', console: 'shell', terminal: 'shell',
+}
+
+// Line-level signals for each language; JSON is recognized by parsing instead
+const CODE_LANGUAGE_SIGNALS: Record<Exclude<CodeLanguage, 'json'>, RegExp[]> = {
+  sql: [
+    /^\s*(SELECT|INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM|CREATE\s+(TABLE|VIEW|INDEX)|ALTER\s+TABLE|WITH\s+\w+\s+AS)\b/i,
+    /^\s*(FROM|WHERE|AND|OR|ORDER\s+BY|GROUP\s+BY|HAVING|LIMIT|JOIN|LEFT\s+JOIN|INNER\s+JOIN)\b/i,
+    /\bFROM\s+\w+\s+WHERE\b/i,
+  ],
+  apex: [
+    /\b(public|private|global|protected)\s+(with|without|inherited)\s+sharing\b/i,
+    /\bSystem\.(debug|assert\w*)\s*\(/,
+    /\b(List|Map|Set)<[\w.,\s]+>/,
+    /^\s*(Id|String|Integer|Decimal|Boolean|Date|Datetime|SObject)\s+\w+\s*[=;]/,
+    /\[\s*SELECT\b/i,
+    /^\s*(insert|update|upsert|delete|undelete)\s+\w+\s*;/i,
+    /\b(Database|Schema|Trigger|Test)\.\w+/,
+    /^\s*@(isTest|AuraEnabled|future|InvocableMethod|TestSetup|RemoteAction)\b/i,
+    /^\s*trigger\s+\w+\s+on\s+\w+/i,
+  ],
+  javascript: [
+    /^\s*(const|let|var)\s+[\w{}[\],\s]+=/,
+    /=>/,
+    /\bfunction\s*\w*\s*\(/,
+    /\bconsole\.\w+\s*\(/,
+    /^\s*(import|export)\s/,
+    /\b(document|window|module\.exports)\b/,
+    /\bawait\s/,
+    /\brequire\s*\(/,
+    /^\s*(interface|type)\s+\w+/,
+  ],
+  xml: [
+    /^\s*<\?xml\b/,
+    /^\s*<\/?[\w:.-]+(\s+[\w:.-]+\s*=\s*("[^"]*"|'[^']*'))*\s*\/?>/,
+    /<\/[\w:.-]+>\s*$/,
+  ],
+  shell: [
+    /^\s*\$\s+\S/,
+    /^#!\//,
+    /^\s*(sudo|npm|npx|yarn|git|cd|ls|echo|curl|wget|sfdx|sf|chmod|mkdir|rm|cp|mv|pip|docker|brew|apt(-get)?)\s/,
+    /\s--?[a-z][\w-]*(=|\s|$)/,
+  ],
+}
+
+export function normalizeCodeLanguage(name?: string): CodeLanguage | undefined {
+  return name ? CODE_LANGUAGE_ALIASES[name.trim().toLowerCase()] : undefined
+}
+
+// Pick the language whose signals match the most lines; undefined when nothing matches
+export function detectCodeLanguage(lines: string[]): CodeLanguage | undefined {
+  const code = lines.join('\n').trim()
+  if (!code) return undefined
+  
+  if (/^[[{]/.test(code)) {
+    try {
+      JSON.parse(code)
+      return 'json'
+    } catch {
+      // Not JSON; fall through to the line signals
+    }
+  }
+  
+  let best: CodeLanguage | undefined
+  let bestScore = 0
+  for (const [language, signals] of Object.entries(CODE_LANGUAGE_SIGNALS) as [CodeLanguage, RegExp[]][]) {
+    const score = lines.reduce((sum, line) => sum + signals.filter(signal => signal.test(line)).length, 0)
+    if (score > bestScore) {
+      best = language
+      bestScore = score
+    }
+  }
+  return best
+}
+
+export type CodeTokenKind = 'keyword' | 'string' | 'comment' | 'number'
+
+export interface CodeToken {
+  text: string
+  kind?: CodeTokenKind
+}
+
+interface CodeSyntax {
+  rules: [CodeTokenKind | 'word', RegExp][] // Tried in order; words are checked against the keywords
+  keywords: Set<string>
+  caseInsensitive?: boolean
+  blockComment?: [string, string] // Delimiters of comments that can span lines
+}
+
+function keywordSet(words: string): Set<string> {
+  return new Set(words.split(/\s+/))
+}
+
+const CODE_SYNTAX: Record<CodeLanguage, CodeSyntax> = {
+  sql: {
+    rules: [
+      ['comment', /--.*|\/\*.*?(?:\*\/|$)/],
+      ['string', /'(?:[^'\\]|\\.)*'?/],
+      ['number', /\b\d+(?:\.\d+)?\b/],
+      ['word', /[A-Za-z_]\w*/],
+    ],
+    keywords: keywordSet('select from where and or not in like limit offset order group by having asc desc nulls first last insert into values update set delete create table view index alter drop join inner left right outer full on as is null with distinct case when then else end union all exists between true false includes excludes typeof'),
+    caseInsensitive: true,
+    blockComment: ['/*', '*/'],
+  },
+  apex: {
+    rules: [
+      ['comment', /\/\/.*|\/\*.*?(?:\*\/|$)/],
+      ['string', /'(?:[^'\\]|\\.)*'?/],
+      ['number', /\b\d+(?:\.\d+)?[lL]?\b/],
+      ['word', /[A-Za-z_]\w*/],
+    ],
+    keywords: keywordSet('abstract class extends implements interface enum public private protected global static final virtual override transient webservice with without inherited sharing void return if else for while do break continue try catch finally throw new this super null true false instanceof trigger on before after insert update upsert delete undelete merge select from where limit and or not in order by get set testmethod'),
+    caseInsensitive: true,
+    blockComment: ['/*', '*/'],
+  },
+  javascript: {
+    rules: [
+      ['comment', /\/\/.*|\/\*.*?(?:\*\/|$)/],
+      ['string', /'(?:[^'\\]|\\.)*'?|"(?:[^"\\]|\\.)*"?|`(?:[^`\\]|\\.)*`?/],
+      ['number', /\b\d+(?:\.\d+)?\b/],
+      ['word', /[A-Za-z_$][\w$]*/],
+    ],
+    keywords: keywordSet('const let var function return if else for while do break continue switch case default try catch finally throw new this class extends import export from as async await yield typeof instanceof in of null undefined true false interface type enum implements public private protected readonly static get set delete void'),
+    blockComment: ['/*', '*/'],
+  },
+  json: {
+    rules: [
+      ['string', /"(?:[^"\\]|\\.)*"?/],
+      ['number', /-?\b\d+(?:\.\d+)?(?:[eE][+-]?\d+)?\b/],
+      ['word', /[a-z]+/],
+    ],
+    keywords: keywordSet('true false null'),
+  },
+  xml: {
+    rules: [
+      ['comment', /<!--.*?(?:-->|$)/],
+      ['keyword', /<\?[\w:.-]+|<\/?[\w:.-]+|\/?>|\?>/],
+      ['string', /"[^"]*"?|'[^']*'?/],
+    ],
+    keywords: new Set(),
+    blockComment: ['<!--', '-->'],
+  },
+  shell: {
+    rules: [
+      ['comment', /(?<!\S)#.*/],
+      ['string', /'[^']*'?|"(?:[^"\\]|\\.)*"?/],
+      ['number', /\b\d+\b/],
+      ['word', /[A-Za-z_][\w-]*/],
+    ],
+    keywords: keywordSet('if then else elif fi for in do done while until case esac function return export local echo sudo cd exit'),
+  },
+}
+
+// Split each line into colored tokens. Unknown languages come back as one plain token per line.
+export function tokenizeCode(lines: string[], language?: CodeLanguage): CodeToken[][] {
+  if (!language) return lines.map(line => [{ text: line }])
+  
+  const syntax = CODE_SYNTAX[language]
+  const pattern = new RegExp(syntax.rules.map(([, rule]) => `(${rule.source})`).join('|'), 'g')
+  let inBlockComment = false
+  
+  return lines.map(line => {
+    const tokens: CodeToken[] = []
+    const push = (text: string, kind?: CodeTokenKind) => {
+      if (!text) return
+      const last = tokens[tokens.length - 1]
+      if (last && last.kind === kind) last.text += text
+      else tokens.push({ text, kind })
+    }
+    
+    let position = 0
+    if (inBlockComment && syntax.blockComment) {
+      const close = syntax.blockComment[1]
+      const end = line.indexOf(close)
+      if (end < 0) {
+        push(line, 'comment')
+        return tokens
+      }
+      position = end + close.length
+      push(line.slice(0, position), 'comment')
+      inBlockComment = false
+    }
+    
+    pattern.lastIndex = position
+    let match: RegExpExecArray | null
+    while ((match = pattern.exec(line))) {
+      const [text] = match
+      if (text === '') {
+        pattern.lastIndex++
+        continue
+      }
+      push(line.slice(position, match.index))
+      
+      // The first participating group says which rule matched
+      const [kind] = syntax.rules[match.slice(1).findIndex(group => group !== undefined)]
+      if (kind === 'word') {
+        push(text, syntax.keywords.has(syntax.caseInsensitive ? text.toLowerCase() : text) ? 'keyword' : undefined)
+      } else {
+        push(text, kind)
+      }
+      
+      if (kind === 'comment' && syntax.blockComment) {
+        const [open, close] = syntax.blockComment
+        if (text.startsWith(open) && (text.length < open.length + close.length || !text.endsWith(close))) {
+          inBlockComment = true
+        }
+      }
+      position = match.index + text.length
+    }
+    push(line.slice(position))
+    
+    return tokens
+  })
+}
+
+// Display name for a code block's language; unrecognized source names are shown as given
+export function getCodeLanguageLabel(language?: string): string | undefined {
+  const codeLanguage = normalizeCodeLanguage(language)
+  return codeLanguage ? CODE_LANGUAGE_LABELS[codeLanguage] : language
+}
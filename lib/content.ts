@@ -0,0 +1,200 @@
+// Content model shared by the classifier, the review UI and every exporter
+
+import type { CalloutKind } from './callouts'
+
+// A stretch of text sharing the same inline formatting
+export interface TextSpan {
+  text: string
+  bold?: boolean
+  italic?: boolean
+  underline?: boolean
+  strike?: boolean
+  code?: boolean
+  link?: string // Target URL when the span is a hyperlink
+}
+
+// One table cell; each entry in `paragraphs` is a paragraph's runs
+export interface TableCellData {
+  paragraphs: TextSpan[][]
+  colSpan?: number
+  rowSpan?: number
+}
+
+export interface TableRowData {
+  cells: TableCellData[]
+  header?: boolean // Header rows get TechTorch shading and repeat across pages
+}
+
+// An embedded picture pulled out of the source document
+export interface ImageData {
+  data: Uint8Array
+  type: 'png' | 'jpg' | 'gif' | 'bmp'
+  width: number // Natural size in pixels
+  height: number
+  altText?: string
+}
+
+export interface ContentItem {
+  type: 'heading1' | 'heading2' | 'heading3' | 'paragraph' | 'bullet' | 'numbered' | 'code_block' | 'table' | 'image' | 'callout'
+  text?: string
+  runs?: TextSpan[] // Styled version of `text`; concatenated span text always equals `text`
+  lines?: string[]
+  language?: string // Code block language: a CodeLanguage when recognized, otherwise as named by the source
+  rows?: TableRowData[] // Only for tables
+  image?: ImageData // Only for images
+  caption?: string // Caption paragraph found directly under an image in the source
+  callout?: CalloutKind // Only for callouts; `text` is what follows the label
+  number?: number
+  depth?: number // List nesting level, 0 (or absent) for top-level items
+  confidence?: number // How confident we are in this classification
+  source?: 'structure' | 'heuristic' | 'manual' // Where the type came from: source styles, guessing, or the reviewer
+}
+
+// Deepest list level; Word lists have nine (0-8)
+export const MAX_LIST_DEPTH = 8
+
+export function isListItem(item: ContentItem): boolean {
+  return item.type === 'bullet' || item.type === 'numbered'
+}
+
+// Editable text for an item; code blocks are edited one line per row
+export function getItemText(item: ContentItem): string {
+  return item.type === 'code_block' ? (item.lines || []).join('\n') : item.text || ''
+}
+
+export function getItemSpans(item: ContentItem): TextSpan[] {
+  return item.runs && item.runs.length > 0 ? item.runs : [{ text: item.text || '' }]
+}
+
+// Merge adjacent spans with identical formatting and trim whitespace at the line edges
+export function trimRuns(runs: TextSpan[]): TextSpan[] {
+  const merged: TextSpan[] = []
+  for (const run of runs) {
+    if (!run.text) continue
+    const last = merged[merged.length - 1]
+    if (last && sameFormatting(last, run)) {
+      last.text += run.text
+    } else {
+      merged.push({ ...run })
+    }
+  }
+  
+  while (merged.length > 0 && merged[0].text.trim() === '') merged.shift()
+  while (merged.length > 0 && merged[merged.length - 1].text.trim() === '') merged.pop()
+  if (merged.length > 0) {
+    merged[0].text = merged[0].text.replace(/^\s+/, '')
+    merged[merged.length - 1].text = merged[merged.length - 1].text.replace(/\s+$/, '')
+  }
+  return merged
+}
+
+function sameFormatting(a: TextSpan, b: TextSpan): boolean {
+  return !!a.bold === !!b.bold &&
+    !!a.italic === !!b.italic &&
+    !!a.underline === !!b.underline &&
+    !!a.strike === !!b.strike &&
+    !!a.code === !!b.code &&
+    a.link === b.link
+}
+
+// Character-range slice of a run list, like String.slice (used when stripping list markers)
+export function sliceRuns(runs: TextSpan[], start: number, end = Infinity): TextSpan[] {
+  const result: TextSpan[] = []
+  let position = 0
+  for (const run of runs) {
+    const runStart = position
+    position += run.text.length
+    if (position <= start || runStart >= end) continue
+    result.push({ ...run, text: run.text.slice(Math.max(0, start - runStart), end - runStart) })
+  }
+  return result
+}
+
+const TAB_SIZE = 4
+
+// Replace tabs with spaces up to the next tab stop, so mixed indentation lines up
+export function expandTabs(line: string): string {
+  let expanded = ''
+  for (const char of line.split('')) {
+    expanded += char === '\t' ? ' '.repeat(TAB_SIZE - (expanded.length % TAB_SIZE)) : char
+  }
+  return expanded
+}
+
+// Remove the indentation shared by every non-blank line
+export function dedentLines(lines: string[]): string[] {
+  const indents = lines.filter(line => line.trim()).map(line => line.length - line.trimStart().length)
+  const shared = indents.length > 0 ? Math.min(...indents) : 0
+  return lines.map(line => line.slice(Math.min(shared, line.length - line.trimStart().length)))
+}
+
+// Numbered items are renumbered 1..n within each unbroken run after every edit.
+// Numbers count per nesting level: a new parent item restarts the levels below it,
+// and anything other than a list item ends the list.
+export function renumberLists(content: ContentItem[]): ContentItem[] {
+  const counters: number[] = []
+  return content.map(item => {
+    if (!isListItem(item)) {
+      counters.length = 0
+      return item
+    }
+    const depth = item.depth || 0
+    counters.length = depth + 1
+    if (item.type !== 'numbered') {
+      counters[depth] = 0
+      return item
+    }
+    counters[depth] = (counters[depth] || 0) + 1
+    return item.number === counters[depth] ? item : { ...item, number: counters[depth] }
+  })
+}
+
+// Item counts shown after analysis
+export interface Stats {
+  headings: number
+  bullets: number
+  numbered: number
+  codeBlocks: number
+  tables: number
+  images: number
+  callouts: number
+  paragraphs: number
+}
+
+export function computeStats(content: ContentItem[]): Stats {
+  return {
+    headings: content.filter(c => c.type.startsWith('heading')).length,
+    bullets: content.filter(c => c.type === 'bullet').length,
+    numbered: content.filter(c => c.type === 'numbered').length,
+    codeBlocks: content.filter(c => c.type === 'code_block').length,
+    tables: content.filter(c => c.type === 'table').length,
+    images: content.filter(c => c.type === 'image').length,
+    callouts: content.filter(c => c.type === 'callout').length,
+    paragraphs: content.filter(c => c.type === 'paragraph').length,
+  }
+}
+
+export function toBase64(data: Uint8Array): string {
+  let binary = ''
+  for (let i = 0; i < data.length; i += 0x8000) {
+    binary += String.fromCharCode(...Array.from(data.subarray(i, i + 0x8000)))
+  }
+  return btoa(binary)
+}
+
+export function fromBase64(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const data = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i)
+  return data
+}
+
+// Embeds an image in HTML, Markdown and PDF output
+export function toDataUri(image: ImageData): string {
+  return `data:image/${image.type === 'jpg' ? 'jpeg' : image.type};base64,${toBase64(image.data)}`
+}
+
+// JSON.stringify replacer that writes image bytes as base64 rather than one key per byte
+export function encodeBinaryData(_key: string, value: unknown): unknown {
+  return value instanceof Uint8Array ? toBase64(value) : value
+}
@@ -0,0 +1,1115 @@
+// Builds the formatted Word document. Shared by the page and the command-line formatter.
+
+import {
+  Document,
+  Paragraph,
+  TextRun,
+  ExternalHyperlink,
+  Table,
+  TableRow,
+  TableCell,
+  HeadingLevel,
+  AlignmentType,
+  BorderStyle,
+  WidthType,
+  ShadingType,
+  PageBreak,
+  LevelFormat,
+  LevelSuffix,
+  ImageRun,
+  Header,
+  Footer,
+  PageNumber,
+  Bookmark,
+  BookmarkStart,
+  BookmarkEnd,
+  ParagraphChild,
+  InternalHyperlink,
+  PageReference,
+  Tab,
+  TabStopType,
+  LeaderType,
+  XmlComponent,
+  XmlAttributeComponent,
+} from 'docx'
+import { TextSpan, TableCellData, TableRowData, ImageData, ContentItem, MAX_LIST_DEPTH, getItemText, getItemSpans } from './content'
+import { CodeTokenKind, normalizeCodeLanguage, tokenizeCode, getCodeLanguageLabel } from './code-languages'
+import { HEADING_TYPES, isHeading, getHeadingDepth, stripHeadingNumber, numberHeadings } from './headings'
+import { FIGURE_CAPTION_PATTERN } from './classifier'
+import { StyleProfile, LogoAlignment, DEFAULT_STYLE_PROFILE, getContentWidth, getCalloutColors } from './style-profiles'
+import { DocumentTemplate, TemplateSection, DEFAULT_TEMPLATE, getFrontMatter, fillRunningText, createFixedSection } from './templates'
+import { DocumentVersion, DEFAULT_DOCUMENT_VERSION, DOCUMENT_STATUS_LABELS, getRevisionHistory, parseDate } from './revisions'
+import { Logo, DocumentLogos, getLogoSize } from './logos'
+import { CALLOUT_LABELS } from './callouts'
+
+// Token color from the profile's code block palette; plain text keeps the code text color
+export function getTokenColor(kind: CodeTokenKind | undefined, profile: StyleProfile): string {
+  return kind ? profile.codeBlock[kind] : profile.codeBlock.text
+}
+
+interface RunStyle {
+  font: string
+  size: number
+  color: string
+  bold?: boolean
+}
+
+// Build the runs for an item's text, applying its inline formatting on top of the base style
+function createInlineRuns(item: ContentItem, style: RunStyle, profile: StyleProfile): (TextRun | ExternalHyperlink)[] {
+  return createSpanRuns(getItemSpans(item), style, profile)
+}
+
+function createSpanRuns(spans: TextSpan[], style: RunStyle, profile: StyleProfile): (TextRun | ExternalHyperlink)[] {
+  return spans.map(span => {
+    const run = new TextRun({
+      text: span.text,
+      font: span.code ? profile.fonts.code : style.font,
+      size: style.size,
+      color: span.link ? profile.colors.link : style.color,
+      bold: style.bold || span.bold,
+      italics: span.italic,
+      underline: span.underline || span.link ? {} : undefined,
+      strike: span.strike,
+      shading: span.code ? { type: ShadingType.CLEAR, fill: profile.codeBlock.background } : undefined,
+    })
+    return span.link ? new ExternalHyperlink({ link: span.link, children: [run] }) : run
+  })
+}
+
+// Shaded single-column table, one row per line, with an optional language label row on top
+function createCodeBlockTable(lines: string[], language: string | undefined, profile: StyleProfile, options: FormatOptions): Table {
+  const { codeBlock } = profile
+  const tableBorder = { style: BorderStyle.SINGLE, size: 1, color: codeBlock.border }
+  const accentBorder = { style: BorderStyle.SINGLE, size: codeBlock.accentWidth, color: codeBlock.accent }
+  const noBorder = { style: BorderStyle.NIL, size: 0, color: 'FFFFFF' }
+  const width = getContentWidth(profile)
+  const label = options.codeLanguageLabels ? getCodeLanguageLabel(language) : undefined
+  const numberWidth = String(lines.length).length
+  
+  const rows: TextRun[][] = tokenizeCode(lines, normalizeCodeLanguage(language)).map((tokens, index) => [
+    ...(options.codeLineNumbers
+      ? [new TextRun({ text: `${String(index + 1).padStart(numberWidth)}  `, font: profile.fonts.code, size: profile.sizes.code, color: profile.colors.secondary })]
+      : []),
+    ...tokens.map(token =>
+      new TextRun({
+        text: token.text,
+        font: profile.fonts.code,
+        size: profile.sizes.code,
+        color: getTokenColor(token.kind, profile),
+        italics: token.kind === 'comment',
+      })
+    ),
+  ])
+  if (label) {
+    rows.unshift([new TextRun({ text: label, font: profile.fonts.body, size: profile.sizes.code - 2, bold: true, color: codeBlock.accent })])
+  }
+  
+  return new Table({
+    columnWidths: [width],
+    rows: rows.map((children, index) => 
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: width, type: WidthType.DXA },
+            shading: { fill: codeBlock.background, type: ShadingType.CLEAR },
+            borders: {
+              left: accentBorder,
+              right: tableBorder,
+              top: index === 0 ? tableBorder : noBorder,
+              bottom: index === rows.length - 1 || (label && index === 0) ? tableBorder : noBorder,
+            },
+            children: [
+              new Paragraph({
+                spacing: { before: 20, after: 20 },
+                children,
+              }),
+            ],
+          }),
+        ],
+      })
+    ),
+  })
+}
+
+// Shaded single-cell box with an accent bar in the callout's color, as wide as code blocks' accent,
+// and the label in bold leading the text
+function createCalloutTable(item: ContentItem, profile: StyleProfile): Table {
+  const { fonts, sizes, colors } = profile
+  const kind = item.callout || 'note'
+  const { accent, background, border } = getCalloutColors(kind, profile)
+  const boxBorder = { style: BorderStyle.SINGLE, size: 1, color: border }
+  const width = getContentWidth(profile)
+  
+  return new Table({
+    columnWidths: [width],
+    rows: [
+      new TableRow({
+        children: [
+          new TableCell({
+            width: { size: width, type: WidthType.DXA },
+            shading: { fill: background, type: ShadingType.CLEAR },
+            borders: {
+              left: { style: BorderStyle.SINGLE, size: profile.codeBlock.accentWidth, color: accent },
+              right: boxBorder,
+              top: boxBorder,
+              bottom: boxBorder,
+            },
+            margins: { top: 80, bottom: 80, left: 160, right: 160 },
+            children: [
+              new Paragraph({
+                children: [
+                  new TextRun({ text: `${CALLOUT_LABELS[kind]}: `, bold: true, font: fonts.body, size: sizes.body, color: accent }),
+                  ...createInlineRuns(item, { font: fonts.body, size: sizes.body, color: colors.body }, profile),
+                ],
+              }),
+            ],
+          }),
+        ],
+      }),
+    ],
+  })
+}
+
+// Number of grid columns, accounting for column spans and cells covered by row spans
+export function countTableColumns(rows: TableRowData[]): number {
+  const covered: number[] = [] // Remaining rows each column is covered by a row span from above
+  let columns = 0
+  
+  for (const row of rows) {
+    let col = 0
+    for (const cell of row.cells) {
+      while (covered[col] > 0) col++
+      const span = cell.colSpan || 1
+      for (let c = col; c < col + span; c++) covered[c] = Math.max(covered[c] || 0, cell.rowSpan || 1)
+      col += span
+    }
+    columns = Math.max(columns, col, covered.length)
+    for (let c = 0; c < covered.length; c++) {
+      if (covered[c] > 0) covered[c]--
+    }
+  }
+  
+  return Math.max(columns, 1)
+}
+
+// Expand a table into a full grid; cells covered by a span from the left or above are null
+export function layoutTableGrid(rows: TableRowData[]): (TableCellData | null)[][] {
+  const columnCount = countTableColumns(rows)
+  const grid: (TableCellData | null | undefined)[][] = rows.map(() => Array(columnCount).fill(undefined))
+  
+  rows.forEach((row, r) => {
+    let col = 0
+    for (const cell of row.cells) {
+      while (col < columnCount && grid[r][col] !== undefined) col++
+      if (col >= columnCount) break
+      for (let dr = 0; dr < (cell.rowSpan || 1) && r + dr < rows.length; dr++) {
+        for (let dc = 0; dc < (cell.colSpan || 1) && col + dc < columnCount; dc++) {
+          grid[r + dr][col + dc] = null
+        }
+      }
+      grid[r][col] = cell
+      col += cell.colSpan || 1
+    }
+  })
+  
+  // Short rows are padded with empty cells
+  return grid.map(row => row.map(cell => cell === undefined ? { paragraphs: [] } : cell))
+}
+
+function createDataTable(rows: TableRowData[], profile: StyleProfile): Table {
+  const { colors } = profile
+  const border = { style: BorderStyle.SINGLE, size: 4, color: colors.tableBorder }
+  const columnCount = countTableColumns(rows)
+  const columnWidth = Math.floor(getContentWidth(profile) / columnCount)
+  
+  return new Table({
+    columnWidths: Array(columnCount).fill(columnWidth),
+    width: { size: columnWidth * columnCount, type: WidthType.DXA },
+    rows: rows.map(row =>
+      new TableRow({
+        tableHeader: row.header,
+        children: row.cells.map(cell =>
+          new TableCell({
+            width: { size: columnWidth * (cell.colSpan || 1), type: WidthType.DXA },
+            columnSpan: cell.colSpan,
+            rowSpan: cell.rowSpan,
+            shading: row.header ? { fill: colors.tableHeaderBg, type: ShadingType.CLEAR } : undefined,
+            borders: { top: border, bottom: border, left: border, right: border },
+            margins: { top: 60, bottom: 60, left: 100, right: 100 },
+            children: (cell.paragraphs.length > 0 ? cell.paragraphs : [[]]).map(spans =>
+              new Paragraph({
+                spacing: { before: 20, after: 20 },
+                children: createSpanRuns(spans, {
+                  font: profile.fonts.body,
+                  size: profile.sizes.body,
+                  color: row.header ? colors.tableHeaderText : colors.body,
+                  bold: row.header,
+                }, profile),
+              })
+            ),
+          })
+        ),
+      })
+    ),
+  })
+}
+
+// Scale an image down to fit the content width and a single page
+function createImageRun(image: ImageData, profile: StyleProfile): ImageRun {
+  const maxWidth = getContentWidth(profile) / 15 // 15 twips per pixel at 96 DPI
+  const maxHeight = 800
+  const scale = Math.min(1, maxWidth / image.width, maxHeight / image.height)
+  
+  return new ImageRun({
+    type: image.type,
+    data: image.data,
+    transformation: {
+      width: Math.round(image.width * scale),
+      height: Math.round(image.height * scale),
+    },
+    altText: image.altText ? { name: image.altText, description: image.altText, title: image.altText } : undefined,
+  })
+}
+
+// A logo `height` twips tall and at most half the content width, so two fit side by side.
+// SVG logos carry their PNG picture for Word versions that can't draw SVG.
+function createLogoRun(logo: Logo, height: number, name: string, profile: StyleProfile): ImageRun {
+  const transformation = getLogoSize(logo, height / 15, getContentWidth(profile) / 30)
+  const altText = { name, description: name, title: name }
+  return logo.svg
+    ? new ImageRun({ type: 'svg', data: logo.svg, fallback: { type: logo.image.type, data: logo.image.data }, transformation, altText })
+    : new ImageRun({ type: logo.image.type, data: logo.image.data, transformation, altText })
+}
+
+// Alt text of each logo, e.g. "Calabrio Inc. logo"
+export function getLogoNames(organization: string): Record<keyof DocumentLogos, string> {
+  return { company: 'TechTorch logo', client: `${organization || 'Client'} logo` }
+}
+
+// Both logos in one line; spread puts TechTorch's at the left margin and the client's at the right
+function createLogoParagraph(logos: DocumentLogos, organization: string, alignment: LogoAlignment, profile: StyleProfile): Paragraph | null {
+  const names = getLogoNames(organization)
+  const { height } = profile.logos
+  const company = logos.company ? [createLogoRun(logos.company, height, names.company, profile)] : []
+  const client = logos.client ? [createLogoRun(logos.client, height, names.client, profile)] : []
+  if (company.length === 0 && client.length === 0) return null
+  
+  if (alignment === 'spread') {
+    return new Paragraph({
+      spacing: { after: 240 },
+      tabStops: [{ type: TabStopType.RIGHT, position: getContentWidth(profile) }],
+      children: [...company, ...(client.length > 0 ? [new TextRun({ children: [new Tab()] }), ...client] : [])],
+    })
+  }
+  const gap = company.length > 0 && client.length > 0 ? [new TextRun({ text: '      ' })] : []
+  return new Paragraph({
+    alignment: { left: AlignmentType.LEFT, center: AlignmentType.CENTER, right: AlignmentType.RIGHT }[alignment],
+    spacing: { after: 240 },
+    children: [...company, ...gap, ...client],
+  })
+}
+
+// Title page lines shared by every export format; issueDate is YYYY-MM-DD, or empty for today
+export function formatIssueDate(prefix = 'As of', issueDate = ''): string {
+  return `${prefix} ${parseDate(issueDate).toLocaleDateString('en-US', { month: 'long', year: 'numeric' })}`
+}
+
+export function formatVersion(author: string, documentVersion: DocumentVersion = DEFAULT_DOCUMENT_VERSION): string {
+  const version = `${documentVersion.status === 'draft' ? 'Draft ' : ''}Version ${documentVersion.version}`
+  return author ? `${version} (${author})` : version
+}
+
+// Caption for an image; with figure captions on, figureNumber is this image's position among all images
+export function getImageCaption(item: ContentItem, figureNumber: number, figureCaptions?: boolean): string | undefined {
+  if (!figureCaptions) return item.caption
+  const description = item.caption ? item.caption.replace(FIGURE_CAPTION_PATTERN, '') : item.image?.altText
+  return description ? `Figure ${figureNumber}: ${description}` : `Figure ${figureNumber}`
+}
+
+// Numbered lists cycle 1. → a. → i. as they nest
+const NUMBERED_LEVEL_FORMATS = [LevelFormat.DECIMAL, LevelFormat.LOWER_LETTER, LevelFormat.LOWER_ROMAN]
+
+// Word's nine list levels (0 to MAX_LIST_DEPTH), indented 360 twips further per level with a hanging marker
+function createListLevels(
+  format: (level: number) => { format: (typeof LevelFormat)[keyof typeof LevelFormat]; text: string; start?: number },
+  boldMarker = false
+) {
+  return Array.from({ length: MAX_LIST_DEPTH + 1 }, (_, level) => ({
+    level,
+    ...format(level),
+    alignment: AlignmentType.LEFT,
+    style: {
+      run: boldMarker ? { bold: true } : undefined,
+      paragraph: {
+        indent: { left: 720 + level * 360, hanging: 360 },
+      },
+    },
+  }))
+}
+
+// Heading levels listed in the table of contents unless the options say otherwise
+export const DEFAULT_TOC_DEPTH = 3
+
+// Word's TOC field is written by hand so it can carry its entries; docx only creates field
+// characters inside its own (empty) table of contents
+class FieldCharAttributes extends XmlAttributeComponent<{ type: 'begin' | 'separate' | 'end'; dirty?: boolean }> {
+  protected readonly xmlKeys = { type: 'w:fldCharType', dirty: 'w:dirty' }
+}
+
+class FieldChar extends XmlComponent {
+  constructor(type: 'begin' | 'separate' | 'end', dirty?: boolean) {
+    super('w:fldChar')
+    this.root.push(new FieldCharAttributes({ type, dirty }))
+  }
+}
+
+class FieldInstruction extends XmlComponent {
+  constructor(instruction: string) {
+    super('w:instrText')
+    this.root.push(instruction)
+  }
+}
+
+// Hidden bookmark on a heading for the table of contents to link to
+function getHeadingAnchor(headingNumber: number): string {
+  return `_Toc${String(headingNumber).padStart(8, '0')}`
+}
+
+// docx numbers every bookmark 1, but Word pairs bookmark starts and ends by that number
+class HeadingBookmark extends Bookmark {
+  constructor(headingNumber: number, children: ParagraphChild[]) {
+    const id = getHeadingAnchor(headingNumber)
+    super({ id, children })
+    Object.assign(this, { start: new BookmarkStart(id, headingNumber), end: new BookmarkEnd(headingNumber) })
+  }
+}
+
+// One paragraph per heading, linked to its bookmark, inside a TOC field. The page numbers are
+// PAGEREF fields, which LibreOffice fills in on load and Word on its field update (the TOC is
+// marked dirty); until then the entries are still readable and clickable.
+function createTableOfContents(content: ContentItem[], depth: number, profile: StyleProfile): Paragraph[] {
+  const entries: { text: string; anchor: string; level: number }[] = []
+  content.forEach(item => {
+    if (!isHeading(item)) return
+    const anchor = getHeadingAnchor(entries.length + 1)
+    entries.push({ text: getItemText(item), anchor, level: getHeadingDepth(item) })
+  })
+  const listed = entries.filter(entry => entry.level <= depth)
+  
+  return listed.map((entry, i) => new Paragraph({
+    style: `TOC${entry.level}`,
+    tabStops: [{ type: TabStopType.RIGHT, position: getContentWidth(profile), leader: LeaderType.DOT }],
+    children: [
+      ...(i === 0
+        ? [new TextRun({ children: [new FieldChar('begin', true), new FieldInstruction(`TOC \\o "1-${depth}" \\h \\z \\u`), new FieldChar('separate')] })]
+        : []),
+      new InternalHyperlink({ anchor: entry.anchor, children: [new TextRun({ text: entry.text })] }),
+      new TextRun({ children: [new Tab()] }),
+      new PageReference(entry.anchor, { hyperlink: true }),
+      ...(i === listed.length - 1 ? [new TextRun({ children: [new FieldChar('end')] })] : []),
+    ],
+  }))
+}
+
+// Title for the table of contents and the template's fixed sections
+function createSectionTitle(text: string, profile: StyleProfile, pageBreakBefore?: boolean): Paragraph {
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    spacing: { after: 300 },
+    pageBreakBefore,
+    children: [
+      new TextRun({
+        text,
+        bold: true,
+        font: profile.fonts.heading,
+        size: profile.sizes.subtitle,
+        color: profile.colors.heading1,
+      }),
+    ],
+  })
+}
+
+// A revision history, sign-off or glossary section; empty when the section has nothing to show
+function createTemplateSection(
+  section: Exclude<TemplateSection, 'table-of-contents'>,
+  content: ContentItem[],
+  organization: string,
+  author: string,
+  options: FormatOptions,
+  pageBreakBefore?: boolean
+): (Paragraph | Table)[] {
+  const profile = options.profile || DEFAULT_STYLE_PROFILE
+  const fixed = createFixedSection(section, content, { organization, author, documentVersion: options.documentVersion || DEFAULT_DOCUMENT_VERSION })
+  if (!fixed) return []
+  return [createSectionTitle(fixed.title, profile, pageBreakBefore), createDataTable(fixed.rows, profile)]
+}
+
+// Header or footer text; {page} and {pages} become page number fields
+function createRunningRuns(text: string, profile: StyleProfile): TextRun[] {
+  const { fonts, sizes, colors } = profile
+  const style = { font: fonts.body, size: sizes.footer, color: colors.secondary }
+  return text.split(/(\{pages?\})/).filter(Boolean).map(part =>
+    part === '{page}' ? new TextRun({ ...style, children: [PageNumber.CURRENT] })
+      : part === '{pages}' ? new TextRun({ ...style, children: [PageNumber.TOTAL_PAGES] })
+      : new TextRun({ ...style, text: part })
+  )
+}
+
+// Confidentiality marking, in bold above the footer text
+function createMarkingParagraph(text: string, profile: StyleProfile): Paragraph {
+  const { fonts, sizes, colors } = profile
+  return new Paragraph({
+    alignment: AlignmentType.CENTER,
+    children: [new TextRun({ text, bold: true, font: fonts.body, size: sizes.footer, color: colors.secondary })],
+  })
+}
+
+// Word draws watermarks as a VML WordArt shape anchored in the header, which docx has no classes for
+class VmlAttributes extends XmlAttributeComponent<Record<string, string>> {}
+
+class VmlElement extends XmlComponent {
+  constructor(name: string, attributes: Record<string, string> = {}, children: VmlElement[] = []) {
+    super(name)
+    this.root.push(new VmlAttributes(attributes))
+    children.forEach(child => this.root.push(child))
+  }
+}
+
+// Word's definition of the plain WordArt text shape, repeated in every header that uses it
+const WORDART_FORMULAS = [
+  'sum #0 0 10800', 'prod #0 2 1', 'sum 21600 0 @1', 'sum 0 0 @2', 'sum 21600 0 @3', 'if @0 @3 0', 'if @0 21600 @1',
+  'if @0 0 @2', 'if @0 @4 21600', 'mid @5 @6', 'mid @8 @5', 'mid @7 @8', 'mid @6 @7', 'sum @6 0 @5',
+]
+
+// Text across the middle of the page at 45 degrees, behind the document; shapeId must differ per header
+function createWatermarkRun(text: string, shapeId: number, profile: StyleProfile): TextRun {
+  const width = getContentWidth(profile) / 20
+  const shapeType = new VmlElement('v:shapetype', { id: '_x0000_t136', coordsize: '21600,21600', 'o:spt': '136', adj: '10800', path: 'm@7,l@8,m@5,21600l@6,21600e' }, [
+    new VmlElement('v:formulas', {}, WORDART_FORMULAS.map(eqn => new VmlElement('v:f', { eqn }))),
+    new VmlElement('v:path', { textpathok: 't', 'o:connecttype': 'custom', 'o:connectlocs': '@9,0;@10,10800;@11,21600;@12,10800', 'o:connectangles': '270,180,90,0' }),
+    new VmlElement('v:textpath', { on: 't', fitshape: 't' }),
+    new VmlElement('o:lock', { 'v:ext': 'edit', text: 't', shapetype: 't' }),
+  ])
+  const shape = new VmlElement('v:shape', {
+    id: `PowerPlusWaterMarkObject${shapeId}`,
+    type: '#_x0000_t136',
+    style: [
+      'position:absolute', 'margin-left:0', 'margin-top:0', `width:${width}pt`, `height:${width / 4}pt`, 'rotation:315', 'z-index:-251654144',
+      'mso-position-horizontal:center', 'mso-position-horizontal-relative:margin', 'mso-position-vertical:center', 'mso-position-vertical-relative:margin',
+    ].join(';'),
+    'o:allowincell': 'f',
+    fillcolor: `#${profile.colors.secondary}`,
+    stroked: 'f',
+  }, [
+    new VmlElement('v:fill', { opacity: '.25' }),
+    new VmlElement('v:textpath', { style: `font-family:"${profile.fonts.heading}";font-size:1pt`, string: text }),
+  ])
+  return new TextRun({ children: [new VmlElement('w:pict', {}, [shapeType, shape])] })
+}
+
+export interface FormatOptions {
+  figureCaptions?: boolean // Number every image as "Figure N", replacing source captions
+  codeLanguageLabels?: boolean // Show each code block's language above it
+  codeLineNumbers?: boolean
+  headingNumbers?: boolean // Replace typed heading numbers with 1, 1.1, 1.1.1 outline numbering
+  tableOfContents?: boolean // On unless set to false
+  tocDepth?: number // Deepest heading level the table of contents lists, 1-3
+  profile?: StyleProfile // Defaults to the TechTorch standard
+  template?: DocumentTemplate // Defaults to the Technical Handoff layout
+  documentVersion?: DocumentVersion // Defaults to a final version 1.0 issued today
+  header?: string // Running header, with the same fields as a template's; defaults to the template's
+  footer?: string // Running footer; defaults to the template's
+  confidentiality?: string // Classification marking, e.g. "Confidential – Client Internal"
+  differentFirstPage?: boolean // No header or page number on the title page; on unless set to false
+  draftWatermark?: boolean // DRAFT across every page
+  logos?: DocumentLogos // Shown at the top of the title page
+  headerLogos?: boolean // Also show the logos in the running header
+}
+
+// Header and footer text with the document fields filled in; page number fields are left to the exporter
+export function getRunningText(
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  options: FormatOptions
+): { header: string; footer: string } {
+  const template = options.template || DEFAULT_TEMPLATE
+  const fields = { title: docTitle, subtitle, organization }
+  return {
+    header: fillRunningText(options.header ?? template.header, fields),
+    footer: fillRunningText(options.footer ?? template.footer, fields),
+  }
+}
+
+// Keywords in the document properties, e.g. "Draft, Version 0.3, Runbook, Calabrio Inc."
+export function getDocumentKeywords(organization: string, options: FormatOptions): string {
+  const { status, version } = options.documentVersion || DEFAULT_DOCUMENT_VERSION
+  return [DOCUMENT_STATUS_LABELS[status], `Version ${version}`, (options.template || DEFAULT_TEMPLATE).name, organization].filter(Boolean).join(', ')
+}
+
+// Heading levels the table of contents lists; 0 when it is turned off or the template has none
+export function getTocDepth(options: FormatOptions): number {
+  if (options.tableOfContents === false) return 0
+  if (!(options.template || DEFAULT_TEMPLATE).frontMatter.includes('table-of-contents')) return 0
+  return Math.min(Math.max(options.tocDepth || DEFAULT_TOC_DEPTH, 1), HEADING_TYPES.length)
+}
+
+export function createFormattedDocument(
+  content: ContentItem[],
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  author: string,
+  options: FormatOptions = {}
+): Document {
+  const profile = options.profile || DEFAULT_STYLE_PROFILE
+  const { fonts, colors, sizes, spacing } = profile
+  const children: (Paragraph | Table)[] = []
+  
+  const template = options.template || DEFAULT_TEMPLATE
+  const documentVersion = options.documentVersion || DEFAULT_DOCUMENT_VERSION
+  const titleAlignment = template.titlePage === 'cover' ? AlignmentType.CENTER : AlignmentType.LEFT
+  
+  // ---- TITLE PAGE ----
+  // Logos at the top of the page, then cover and left layouts push the title block down its own
+  // page; compact starts right below the logos
+  const logoParagraph = options.logos ? createLogoParagraph(options.logos, organization, profile.logos.alignment, profile) : null
+  if (logoParagraph) children.push(logoParagraph)
+  const blankLines = { cover: 6, left: 4, compact: 0 }[template.titlePage]
+  for (let i = 0; i < blankLines; i++) {
+    children.push(new Paragraph({ children: [] }))
+  }
+  
+  // Document title, underlined with an accent rule in the left layout
+  children.push(
+    new Paragraph({
+      alignment: titleAlignment,
+      spacing: { after: 240 },
+      border: template.titlePage === 'left'
+        ? { bottom: { style: BorderStyle.SINGLE, size: 18, color: colors.heading1, space: 8 } }
+        : undefined,
+      children: [
+        new TextRun({
+          text: docTitle,
+          bold: true,
+          font: fonts.heading,
+          size: sizes.title,
+          color: colors.title,
+        }),
+      ],
+    })
+  )
+  
+  // Subtitle
+  if (subtitle) {
+    children.push(
+      new Paragraph({
+        alignment: titleAlignment,
+        spacing: { after: 240 },
+        children: [
+          new TextRun({
+            text: subtitle,
+            font: fonts.heading,
+            size: sizes.subtitle,
+            color: colors.title,
+          }),
+        ],
+      })
+    )
+  }
+  
+  // Organization
+  children.push(
+    new Paragraph({
+      alignment: titleAlignment,
+      spacing: { after: 120 },
+      children: [
+        new TextRun({
+          text: organization,
+          font: fonts.body,
+          size: sizes.organization,
+          italics: true,
+          color: colors.body,
+        }),
+      ],
+    })
+  )
+  
+  // Date
+  children.push(
+    new Paragraph({
+      alignment: titleAlignment,
+      spacing: { after: 120 },
+      children: [
+        new TextRun({
+          text: formatIssueDate(template.datePrefix, documentVersion.issueDate),
+          font: fonts.body,
+          size: sizes.date,
+          color: colors.body,
+        }),
+      ],
+    })
+  )
+  
+  // Version with author
+  if (template.showVersion) {
+    children.push(
+      new Paragraph({
+        alignment: titleAlignment,
+        children: [
+          new TextRun({
+            text: formatVersion(author, documentVersion),
+            font: fonts.body,
+            size: sizes.body,
+            color: colors.secondary,
+          }),
+        ],
+      })
+    )
+  }
+  
+  // Confidentiality marking
+  if (options.confidentiality) {
+    children.push(
+      new Paragraph({
+        alignment: titleAlignment,
+        spacing: { before: 360 },
+        children: [
+          new TextRun({
+            text: options.confidentiality,
+            bold: true,
+            font: fonts.body,
+            size: sizes.body,
+            color: colors.secondary,
+          }),
+        ],
+      })
+    )
+  }
+
+  // Page break after title, or a rule between a compact title block and the document
+  children.push(
+    template.titlePage === 'compact'
+      ? new Paragraph({
+          spacing: { after: 240 },
+          border: { bottom: { style: BorderStyle.SINGLE, size: 6, color: colors.secondary, space: 4 } },
+          children: [],
+        })
+      : new Paragraph({ children: [new PageBreak()] })
+  )
+  
+  // ---- FRONT MATTER ----
+  // Each section gets its own page. The table of contents is left out when turned off or when
+  // there are no headings to list.
+  const tocDepth = getTocDepth(options)
+  for (const section of getFrontMatter(template, documentVersion)) {
+    const sectionChildren: (Paragraph | Table)[] = []
+    if (section === 'table-of-contents') {
+      const tocEntries = tocDepth > 0 ? createTableOfContents(options.headingNumbers ? numberHeadings(content) : content, tocDepth, profile) : []
+      if (tocEntries.length > 0) sectionChildren.push(createSectionTitle('Table of Contents', profile), ...tocEntries)
+    } else {
+      sectionChildren.push(...createTemplateSection(section, content, organization, author, options))
+    }
+    if (sectionChildren.length > 0) {
+      children.push(...sectionChildren)
+      children.push(new Paragraph({ children: [new PageBreak()] }))
+    }
+  }
+  
+  // ---- MAIN CONTENT ----
+  // Word numbers the headings itself, so only the typed numbers are removed
+  if (options.headingNumbers) content = content.map(stripHeadingNumber)
+  let lastType: string | null = null
+  let headingCount = 0
+  let figureNumber = 0
+  let numberedInstance = 0
+  const numberedLists: { reference: string; instance: number; lastNumber: number }[] = [] // Open numbered list per level
+  const numberedStarts = new Set<number>([1])
+  
+  for (const item of content) {
+    switch (item.type) {
+      case 'heading1':
+        // Add extra space before H1 if coming from body content
+        if (lastType && lastType !== 'heading1') {
+          children.push(new Paragraph({ spacing: { before: 200 }, children: [] }))
+        }
+        children.push(
+          new Paragraph({
+            heading: HeadingLevel.HEADING_1,
+            numbering: options.headingNumbers ? { reference: 'heading-numbers', level: 0 } : undefined,
+            spacing: spacing.heading1,
+            children: [
+              new HeadingBookmark(++headingCount, createInlineRuns(item, {
+                bold: true,
+                font: fonts.heading,
+                size: sizes.heading1,
+                color: colors.heading1,
+              }, profile)),
+            ],
+          })
+        )
+        break
+        
+      case 'heading2':
+        children.push(
+          new Paragraph({
+            heading: HeadingLevel.HEADING_2,
+            numbering: options.headingNumbers ? { reference: 'heading-numbers', level: 1 } : undefined,
+            spacing: spacing.heading2,
+            children: [
+              new HeadingBookmark(++headingCount, createInlineRuns(item, {
+                bold: true,
+                font: fonts.heading,
+                size: sizes.heading2,
+                color: colors.heading2,
+              }, profile)),
+            ],
+          })
+        )
+        break
+        
+      case 'heading3':
+        children.push(
+          new Paragraph({
+            heading: HeadingLevel.HEADING_3,
+            numbering: options.headingNumbers ? { reference: 'heading-numbers', level: 2 } : undefined,
+            spacing: spacing.heading3,
+            children: [
+              new HeadingBookmark(++headingCount, createInlineRuns(item, {
+                bold: true,
+                font: fonts.heading,
+                size: sizes.heading3,
+                color: colors.heading3,
+              }, profile)),
+            ],
+          })
+        )
+        break
+        
+      case 'paragraph':
+        children.push(
+          new Paragraph({
+            spacing: spacing.paragraph,
+            children: [
+              ...createInlineRuns(item, {
+                font: fonts.body,
+                size: sizes.body,
+                color: colors.body,
+              }, profile),
+            ],
+          })
+        )
+        break
+        
+      case 'bullet':
+        numberedLists.length = Math.min(numberedLists.length, item.depth || 0)
+        children.push(
+          new Paragraph({
+            numbering: { reference: 'bullet-list', level: item.depth || 0 },
+            spacing: item.depth ? spacing.subBullet : spacing.bullet,
+            children: [
+              ...createInlineRuns(item, {
+                font: fonts.body,
+                size: sizes.body,
+                color: colors.body,
+              }, profile),
+            ],
+          })
+        )
+        break
+        
+      case 'numbered': {
+        // A number that doesn't follow the previous one at its level starts a new list, restarting in Word
+        const depth = item.depth || 0
+        const number = item.number || 1
+        const list = numberedLists[depth]
+        if (!list || number !== list.lastNumber + 1) {
+          numberedStarts.add(number)
+          numberedLists[depth] = {
+            reference: number === 1 ? 'numbered-list' : `numbered-list-from-${number}`,
+            instance: ++numberedInstance,
+            lastNumber: number,
+          }
+        } else {
+          list.lastNumber = number
+        }
+        numberedLists.length = depth + 1 // Deeper lists end with their parent item
+        children.push(
+          new Paragraph({
+            numbering: { reference: numberedLists[depth].reference, level: depth, instance: numberedLists[depth].instance },
+            spacing: depth > 0 ? spacing.subBullet : spacing.bullet,
+            children: [
+              ...createInlineRuns(item, {
+                font: fonts.body,
+                size: sizes.body,
+                color: colors.body,
+              }, profile),
+            ],
+          })
+        )
+        break
+      }
+        
+      case 'code_block':
+        if (item.lines && item.lines.length > 0) {
+          children.push(new Paragraph({ spacing: { before: 120, after: 60 }, children: [] }))
+          children.push(createCodeBlockTable(item.lines, item.language, profile, options))
+          children.push(new Paragraph({ spacing: { before: 60, after: 120 }, children: [] }))
+        }
+        break
+        
+      case 'callout':
+        children.push(new Paragraph({ spacing: { before: 120, after: 60 }, children: [] }))
+        children.push(createCalloutTable(item, profile))
+        children.push(new Paragraph({ spacing: { before: 60, after: 120 }, children: [] }))
+        break
+        
+      case 'image':
+        if (item.image) {
+          children.push(
+            new Paragraph({
+              alignment: AlignmentType.CENTER,
+              spacing: { before: 120, after: 60 },
+              keepNext: true,
+              children: [createImageRun(item.image, profile)],
+            })
+          )
+          
+          const captionText = getImageCaption(item, ++figureNumber, options.figureCaptions)
+          if (captionText) {
+            children.push(
+              new Paragraph({
+                alignment: AlignmentType.CENTER,
+                spacing: { after: 160 },
+                children: [
+                  new TextRun({
+                    text: captionText,
+                    font: fonts.body,
+                    size: sizes.body,
+                    italics: true,
+                    color: colors.secondary,
+                  }),
+                ],
+              })
+            )
+          }
+        }
+        break
+        
+      case 'table':
+        if (item.rows && item.rows.length > 0) {
+          children.push(new Paragraph({ spacing: { before: 120, after: 60 }, children: [] }))
+          children.push(createDataTable(item.rows, profile))
+          children.push(new Paragraph({ spacing: { before: 60, after: 120 }, children: [] }))
+        }
+        break
+    }
+    
+    lastType = item.type
+  }
+  
+  // ---- BACK MATTER ----
+  for (const section of template.backMatter) {
+    if (section === 'table-of-contents') continue // Only listed at the front
+    children.push(...createTemplateSection(section, content, organization, author, options, true))
+  }
+  
+  // ---- END OF DOCUMENT ----
+  if (template.closingLine) {
+    children.push(
+      new Paragraph({
+        alignment: AlignmentType.CENTER,
+        spacing: { before: 400 },
+        children: [
+          new TextRun({
+            text: template.closingLine,
+            font: fonts.body,
+            size: sizes.body,
+            italics: true,
+            color: colors.secondary,
+          }),
+        ],
+      })
+    )
+  }
+  
+  // ---- HEADERS AND FOOTERS ----
+  // A different first page leaves the running text off the title page but keeps the markings
+  const { header: headerText, footer: footerText } = getRunningText(docTitle, subtitle, organization, options)
+  const differentFirstPage = options.differentFirstPage !== false
+  const createHeader = (text: string, shapeId: number, withLogos?: boolean) => {
+    const watermark = options.draftWatermark ? [createWatermarkRun('DRAFT', shapeId, profile)] : []
+    const logos = (withLogos && options.logos) || {}
+    if (logos.company || logos.client) {
+      // TechTorch's logo at the left margin; the header text and the client's logo at the right
+      const names = getLogoNames(organization)
+      const { headerHeight } = profile.logos
+      return new Header({
+        children: [
+          new Paragraph({
+            tabStops: [{ type: TabStopType.RIGHT, position: getContentWidth(profile) }],
+            children: [
+              ...watermark,
+              ...(logos.company ? [createLogoRun(logos.company, headerHeight, names.company, profile)] : []),
+              new TextRun({ children: [new Tab()] }),
+              ...createRunningRuns(text, profile),
+              ...(logos.client ? [new TextRun({ text: text ? '  ' : '' }), createLogoRun(logos.client, headerHeight, names.client, profile)] : []),
+            ],
+          }),
+        ],
+      })
+    }
+    const runs = [...watermark, ...createRunningRuns(text, profile)]
+    return runs.length > 0 ? new Header({ children: [new Paragraph({ alignment: AlignmentType.RIGHT, children: runs })] }) : undefined
+  }
+  const createFooter = (text: string) => {
+    const paragraphs = [
+      ...(options.confidentiality ? [createMarkingParagraph(options.confidentiality, profile)] : []),
+      ...(text ? [new Paragraph({ alignment: AlignmentType.CENTER, children: createRunningRuns(text, profile) })] : []),
+    ]
+    return paragraphs.length > 0 ? new Footer({ children: paragraphs }) : undefined
+  }
+  
+  // Core properties, shown in Word's document info and searchable in SharePoint
+  return new Document({
+    title: docTitle,
+    subject: subtitle || undefined,
+    creator: author || organization,
+    lastModifiedBy: author || organization,
+    revision: getRevisionHistory(documentVersion, author).length,
+    keywords: getDocumentKeywords(organization, options),
+    styles: {
+      default: {
+        document: {
+          run: {
+            font: fonts.body,
+            size: sizes.body,
+          },
+        },
+      },
+      paragraphStyles: [
+        {
+          id: 'Heading1',
+          name: 'Heading 1',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: {
+            font: fonts.heading,
+            size: sizes.heading1,
+            bold: true,
+            color: colors.heading1,
+          },
+          paragraph: {
+            spacing: spacing.heading1,
+          },
+        },
+        {
+          id: 'Heading2',
+          name: 'Heading 2',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: {
+            font: fonts.heading,
+            size: sizes.heading2,
+            bold: true,
+            color: colors.heading2,
+          },
+          paragraph: {
+            spacing: spacing.heading2,
+          },
+        },
+        {
+          id: 'Heading3',
+          name: 'Heading 3',
+          basedOn: 'Normal',
+          next: 'Normal',
+          quickFormat: true,
+          run: {
+            font: fonts.heading,
+            size: sizes.heading3,
+            bold: true,
+            color: colors.heading3,
+          },
+          paragraph: {
+            spacing: spacing.heading3,
+          },
+        },
+        // Table of contents entries, indented per heading level
+        ...HEADING_TYPES.map((_, level) => ({
+          id: `TOC${level + 1}`,
+          name: `toc ${level + 1}`,
+          basedOn: 'Normal',
+          next: 'Normal',
+          run: {
+            font: fonts.body,
+            size: sizes.body,
+            bold: level === 0,
+            color: colors.body,
+          },
+          paragraph: {
+            indent: { left: level * 240 },
+            spacing: { before: level === 0 ? 120 : 0, after: 60 },
+          },
+        })),
+      ],
+    },
+    numbering: {
+      config: [
+        // Outline numbers for the three heading levels; the heading styles keep their own indentation
+        {
+          reference: 'heading-numbers',
+          levels: HEADING_TYPES.map((_, level) => ({
+            level,
+            format: LevelFormat.DECIMAL,
+            text: Array.from({ length: level + 1 }, (_, parent) => `%${parent + 1}`).join('.'),
+            suffix: LevelSuffix.SPACE,
+          })),
+        },
+        {
+          reference: 'bullet-list',
+          levels: createListLevels(level => ({
+            format: LevelFormat.BULLET,
+            text: profile.bullets[level % profile.bullets.length],
+          })),
+        },
+        // Lists that don't start at 1 each need a definition with their own start value.
+        // Every list instance is used at a single level, so the start applies to all levels.
+        ...Array.from(numberedStarts).map(start => ({
+          reference: start === 1 ? 'numbered-list' : `numbered-list-from-${start}`,
+          levels: createListLevels(level => ({
+            format: NUMBERED_LEVEL_FORMATS[level % NUMBERED_LEVEL_FORMATS.length],
+            text: `%${level + 1}.`,
+            start,
+          }), true),
+        })),
+      ],
+    },
+    sections: [
+      {
+        properties: {
+          titlePage: differentFirstPage,
+          page: {
+            margin: profile.margins,
+          },
+        },
+        headers: {
+          default: createHeader(headerText, 1, options.headerLogos),
+          first: differentFirstPage ? createHeader('', 2) : undefined,
+        },
+        footers: {
+          default: createFooter(footerText),
+          first: differentFirstPage ? createFooter('') : undefined,
+        },
+        children: children,
+      },
+    ],
+  })
+}
+
+// File name for an exported document, e.g. "Release_Notes_Formatted.docx"
+export function getOutputFileName(title: string, extension: string): string {
+  const cleanTitle = title.replace(/[^\w\s-]/g, '').replace(/\s+/g, '_')
+  return `${cleanTitle}_Formatted.${extension}`
+}
@@ -0,0 +1,47 @@
+// Output formats, and rendering a document in any of them for the command-line formatter and the API
+
+import { Packer } from 'docx'
+import { ContentItem } from './content'
+import { FormatOptions, createFormattedDocument } from './docx'
+import { createHtmlDocument } from './html'
+import { createMarkdownDocument } from './markdown-export'
+import { createPdf } from './pdf'
+
+export type ExportFormat = 'docx' | 'pdf' | 'html' | 'markdown'
+
+export const EXPORT_FORMATS: { value: ExportFormat; label: string; extension: string; contentType: string }[] = [
+  { value: 'docx', label: 'Word (.docx)', extension: 'docx', contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' },
+  { value: 'pdf', label: 'PDF (.pdf)', extension: 'pdf', contentType: 'application/pdf' },
+  { value: 'html', label: 'HTML (.html)', extension: 'html', contentType: 'text/html;charset=utf-8' },
+  { value: 'markdown', label: 'Markdown (.md)', extension: 'md', contentType: 'text/markdown;charset=utf-8' },
+]
+
+export function isExportFormat(value: string): value is ExportFormat {
+  return EXPORT_FORMATS.some(format => format.value === value)
+}
+
+export function getExportFormat(format: ExportFormat): (typeof EXPORT_FORMATS)[number] {
+  return EXPORT_FORMATS.find(f => f.value === format) || EXPORT_FORMATS[0]
+}
+
+// Word output goes through Packer.toBuffer, so this runs in Node only; the page builds Word files as blobs
+export async function exportDocument(
+  format: ExportFormat,
+  content: ContentItem[],
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  author: string,
+  options: FormatOptions = {}
+): Promise<Uint8Array> {
+  switch (format) {
+    case 'docx':
+      return Packer.toBuffer(createFormattedDocument(content, docTitle, subtitle, organization, author, options))
+    case 'pdf':
+      return createPdf(content, docTitle, subtitle, organization, author, options)
+    case 'html':
+      return new TextEncoder().encode(createHtmlDocument(content, docTitle, subtitle, organization, author, options))
+    case 'markdown':
+      return new TextEncoder().encode(createMarkdownDocument(content, docTitle, subtitle, organization, author, options))
+  }
+}
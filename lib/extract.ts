@@ -0,0 +1,111 @@
+// Reads uploaded files into classified content. Works on any File, so the page and the
+// command-line formatter (Node 20 has a global File) share the same path.
+
+import mammoth from 'mammoth'
+import JSZip from 'jszip'
+import { ImageData, ContentItem, getItemText } from './content'
+import { CompiledRuleset, DEFAULT_COMPILED_RULESET } from './rulesets'
+import {
+  detectInputFormat,
+  extractTextContent,
+  classifyLines,
+  MAMMOTH_STYLE_MAP,
+  SHADED_PARAGRAPH_STYLE_ID,
+  IMAGE_SRC_PREFIX,
+  readImageData,
+  ParsedLine,
+  parseHtmlToLines,
+  decodeEntities,
+} from './classifier'
+
+// mammoth's browser build reads `arrayBuffer` and its Node build reads `buffer`; both accept an ArrayBuffer
+function toMammothInput(arrayBuffer: ArrayBuffer) {
+  return { arrayBuffer, buffer: arrayBuffer as unknown as Buffer }
+}
+
+async function readMammothInput(file: File) {
+  return toMammothInput(await file.arrayBuffer())
+}
+
+// mammoth ignores paragraph shading and borders, so paragraphs boxed by direct formatting (Borders and
+// Shading rather than a style) are given a marker style first. Headings and list items keep their own.
+async function markShadedParagraphs(arrayBuffer: ArrayBuffer): Promise<ArrayBuffer> {
+  const zip = await JSZip.loadAsync(arrayBuffer)
+  const documentXml = await zip.file('word/document.xml')?.async('string')
+  if (!documentXml) return arrayBuffer
+  
+  let marked = false
+  const updated = documentXml.replace(/<w:pPr>([\s\S]*?)<\/w:pPr>/g, (properties, inner: string) => {
+    const own = inner.replace(/<w:rPr>[\s\S]*?<\/w:rPr>/g, '') // Run properties of the paragraph mark don't count
+    const shaded = /<w:shd\b[^>]*w:fill="(?!auto"|ffffff")[0-9a-f]{6}"/i.test(own) || own.includes('<w:pBdr>')
+    if (!shaded || /<w:numPr>|<w:pStyle w:val="(Heading|Title)/i.test(own)) return properties
+    marked = true
+    return `<w:pPr><w:pStyle w:val="${SHADED_PARAGRAPH_STYLE_ID}"/>${inner.replace(/<w:pStyle\b[^>]*\/>/, '')}</w:pPr>`
+  })
+  if (!marked) return arrayBuffer
+  zip.file('word/document.xml', updated)
+  return zip.generateAsync({ type: 'arraybuffer' })
+}
+
+// Main content extraction with intelligent classification
+export async function extractContent(file: File, rules: CompiledRuleset = DEFAULT_COMPILED_RULESET): Promise<ContentItem[]> {
+  const format = detectInputFormat(file.name)
+  if (format === 'markdown' || format === 'text') return extractTextContent(await file.text(), format, rules)
+  
+  const input = await readMammothInput(file)
+  
+  // Try HTML conversion first for better structure
+  let lines: ParsedLine[] = []
+  try {
+    const marked = toMammothInput(await markShadedParagraphs(input.arrayBuffer))
+    // Images are kept out of the HTML and referenced by index to avoid huge data URIs
+    const images: ImageData[] = []
+    const htmlResult = await mammoth.convertToHtml(marked, {
+      styleMap: MAMMOTH_STYLE_MAP,
+      ignoreEmptyParagraphs: false, // Blank lines inside code blocks are meaningful
+      convertImage: mammoth.images.imgElement(async image => {
+        const imageData = readImageData(new Uint8Array(await image.readAsArrayBuffer()), image.contentType)
+        if (!imageData) return { src: '' }
+        images.push(imageData)
+        return { src: `${IMAGE_SRC_PREFIX}${images.length - 1}` }
+      }),
+    })
+    const html = htmlResult.value
+    lines = parseHtmlToLines(html, images)
+  } catch {
+    // Fallback to raw text (no inline formatting available)
+    const textResult = await mammoth.extractRawText(input)
+    lines = textResult.value.split('\n').map(line => ({ text: line, runs: [{ text: line }] }))
+  }
+  
+  return classifyLines(lines, rules)
+}
+
+// The source as plain text, for comparing against the formatted result
+export async function extractSourceText(file: File): Promise<string> {
+  if (detectInputFormat(file.name) !== 'docx') return file.text()
+  
+  const result = await mammoth.extractRawText(await readMammothInput(file))
+  return result.value.replace(/\n{3,}/g, '\n\n').trim()
+}
+
+// Title from the .docx core properties, when the author filled it in
+export async function readCoreTitle(file: File): Promise<string | null> {
+  if (detectInputFormat(file.name) !== 'docx') return null
+  
+  const zip = await JSZip.loadAsync(await file.arrayBuffer())
+  const coreXml = await zip.file('docProps/core.xml')?.async('string')
+  const match = coreXml?.match(/<dc:title>([^<]*)<\/dc:title>/)
+  return match ? decodeEntities(match[1]).trim() || null : null
+}
+
+// Core title, else the first heading, else the file name
+export async function getDefaultTitle(file: File, content: ContentItem[]): Promise<string> {
+  const coreTitle = await readCoreTitle(file).catch(() => null)
+  if (coreTitle) return coreTitle
+  
+  const heading = content.find(item => item.type.startsWith('heading'))
+  if (heading && getItemText(heading).trim()) return getItemText(heading).trim()
+  
+  return file.name.replace(/\.[^.]+$/, '').replace(/[_-]+/g, ' ').trim()
+}
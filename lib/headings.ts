@@ -0,0 +1,128 @@
+// Heading structure: outline numbering and hierarchy repair
+
+import { ContentItem, sliceRuns } from './content'
+
+export type HeadingType = 'heading1' | 'heading2' | 'heading3'
+
+export const HEADING_TYPES: HeadingType[] = ['heading1', 'heading2', 'heading3']
+
+// Numbers typed in front of a heading, as getHeadingLevel accepts them: "2.", "3.1", "1.2.3", "a)" and "iv.".
+// A bare number such as the year in "2024 Roadmap" is part of the title.
+const TYPED_HEADING_NUMBER = /^(?:(\d+(?:\.\d+)+|\d+(?=\.))\.?|[a-z]\)|[ivx]+\.)\s+/i
+
+export function isHeading(item: ContentItem): boolean {
+  return HEADING_TYPES.indexOf(item.type as HeadingType) !== -1
+}
+
+export function getHeadingDepth(item: ContentItem): number {
+  return HEADING_TYPES.indexOf(item.type as HeadingType) + 1
+}
+
+// Decimal section number typed in front of a heading, e.g. [3, 1] for "3.1 Scope"
+function getTypedHeadingNumber(item: ContentItem): number[] | null {
+  const match = (item.text || '').match(TYPED_HEADING_NUMBER)
+  return match && match[1] ? match[1].split('.').map(n => parseInt(n)) : null
+}
+
+export function stripHeadingNumber(item: ContentItem): ContentItem {
+  const text = item.text || ''
+  const match = isHeading(item) ? text.match(TYPED_HEADING_NUMBER) : null
+  // Keep headings that are nothing but a number
+  if (!match || match[0].length === text.length) return item
+  return { ...item, text: text.slice(match[0].length), runs: item.runs ? sliceRuns(item.runs, match[0].length) : undefined }
+}
+
+// Outline numbers (1, 1.1, 1.1.1) for every heading, indexed like `content`; other items get ''
+function getOutlineNumbers(content: ContentItem[]): string[] {
+  const counters: number[] = []
+  return content.map(item => {
+    if (!isHeading(item)) return ''
+    const depth = getHeadingDepth(item)
+    while (counters.length < depth) counters.push(0)
+    counters.length = depth
+    counters[depth - 1]++
+    return counters.join('.')
+  })
+}
+
+// Replace typed heading numbers with outline numbers written into the text,
+// for formats without Word's automatic numbering
+export function numberHeadings(content: ContentItem[]): ContentItem[] {
+  const numbers = getOutlineNumbers(content)
+  return content.map((item, i) => {
+    if (!numbers[i]) return item
+    const stripped = stripHeadingNumber(item)
+    const prefix = `${numbers[i]} `
+    return {
+      ...stripped,
+      text: prefix + (stripped.text || ''),
+      runs: stripped.runs ? [{ text: prefix }, ...stripped.runs] : undefined,
+    }
+  })
+}
+
+// A heading can be at most one level below the heading before it; the first heading is a heading1
+export function repairHeadingLevels(content: ContentItem[]): ContentItem[] {
+  let previousDepth = 0
+  return content.map(item => {
+    if (!isHeading(item)) return item
+    const depth = Math.min(getHeadingDepth(item), previousDepth + 1)
+    previousDepth = depth
+    return depth === getHeadingDepth(item) ? item : { ...item, type: HEADING_TYPES[depth - 1] }
+  })
+}
+
+export interface HeadingIssue {
+  index: number // Item in the content list
+  message: string
+  repairable: boolean // Fixed by repairHeadingLevels
+}
+
+// Skipped heading levels, and typed section numbers that repeat or don't follow the one before
+export function findHeadingIssues(content: ContentItem[]): HeadingIssue[] {
+  const issues: HeadingIssue[] = []
+  const seen: string[] = []
+  let previousDepth = 0
+  let previousNumber: number[] | null = null
+  
+  content.forEach((item, index) => {
+    if (!isHeading(item)) return
+    
+    const depth = getHeadingDepth(item)
+    if (depth > previousDepth + 1) {
+      issues.push({
+        index,
+        message: previousDepth === 0
+          ? `Document starts with a level ${depth} heading`
+          : `Level ${depth} heading directly under a level ${previousDepth} heading`,
+        repairable: true,
+      })
+    }
+    previousDepth = Math.min(depth, previousDepth + 1)
+    
+    const typed = getTypedHeadingNumber(item)
+    if (!typed) return
+    const label = typed.join('.')
+    
+    // The next number either goes one level deeper, or counts up at its own or a shallower level
+    const expected: string[] = []
+    if (!previousNumber) {
+      expected.push('1')
+    } else {
+      expected.push([...previousNumber, 1].join('.'))
+      for (let level = previousNumber.length; level > 0; level--) {
+        expected.push([...previousNumber.slice(0, level - 1), previousNumber[level - 1] + 1].join('.'))
+      }
+    }
+    
+    if (seen.indexOf(label) !== -1) {
+      issues.push({ index, message: `Section number ${label} is used more than once`, repairable: false })
+    } else if (expected.indexOf(label) === -1) {
+      issues.push({ index, message: `Section ${label} is out of order (expected ${expected.join(' or ')})`, repairable: false })
+    }
+    seen.push(label)
+    previousNumber = typed
+  })
+  
+  return issues
+}
@@ -0,0 +1,308 @@
+// Standalone HTML export, also shown in the page's side-by-side preview. Shared by the page,
+// the command-line formatter and the API.
+
+import { TextSpan, TableRowData, ContentItem, MAX_LIST_DEPTH, isListItem, getItemText, getItemSpans, toDataUri } from './content'
+import { normalizeCodeLanguage, tokenizeCode, getCodeLanguageLabel } from './code-languages'
+import { numberHeadings } from './headings'
+import { CALLOUT_LABELS, CALLOUT_KINDS } from './callouts'
+import { ParagraphSpacing, StyleProfile, DEFAULT_STYLE_PROFILE, getContentWidth, getCalloutColors } from './style-profiles'
+import {
+  FormatOptions,
+  formatIssueDate,
+  formatVersion,
+  getImageCaption,
+  getTocDepth,
+  getLogoNames,
+  layoutTableGrid,
+} from './docx'
+import { TemplateSection, DEFAULT_TEMPLATE, getFrontMatter, createFixedSection } from './templates'
+import { DocumentVersion, DEFAULT_DOCUMENT_VERSION } from './revisions'
+import { DocumentLogos, getLogoSize, toLogoDataUri } from './logos'
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+function renderHtmlSpans(spans: TextSpan[]): string {
+  return spans.map(span => {
+    let html = escapeHtml(span.text)
+    if (span.code) html = `<code>${html}</code>`
+    if (span.strike) html = `<s>${html}</s>`
+    if (span.underline) html = `<u>${html}</u>`
+    if (span.italic) html = `<em>${html}</em>`
+    if (span.bold) html = `<strong>${html}</strong>`
+    if (span.link) html = `<a href="${escapeHtml(span.link)}">${html}</a>`
+    return html
+  }).join('')
+}
+
+// Nest a run of consecutive list items into <ul>/<ol> elements
+function renderHtmlList(items: ContentItem[]): string {
+  let html = ''
+  const open: ('ul' | 'ol')[] = [] // Open list per level, each with an open <li>
+  
+  for (const item of items) {
+    // A level can't be skipped, so an item nests at most one level below the open lists
+    const depth = Math.min(item.depth || 0, open.length)
+    const tag = item.type === 'numbered' ? 'ol' : 'ul'
+    
+    while (open.length > depth + 1) html += `</li></${open.pop()}>`
+    if (open.length === depth + 1) html += open[depth] === tag ? '</li>' : `</li></${open.pop()}>`
+    if (open.length === depth) {
+      html += tag === 'ol' ? `<ol start="${item.number || 1}">` : '<ul>'
+      open.push(tag)
+    }
+    html += `<li>${renderHtmlSpans(getItemSpans(item))}`
+  }
+  
+  while (open.length > 0) html += `</li></${open.pop()}>`
+  return html
+}
+
+function renderHtmlCodeBlock(lines: string[], language: string | undefined, options: FormatOptions): string {
+  const label = options.codeLanguageLabels ? getCodeLanguageLabel(language) : undefined
+  const numberWidth = String(lines.length).length
+  const code = tokenizeCode(lines, normalizeCodeLanguage(language)).map((tokens, index) => {
+    const lineNumber = options.codeLineNumbers ? `<span class="line-number">${String(index + 1).padStart(numberWidth)}  </span>` : ''
+    return lineNumber + tokens.map(token =>
+      token.kind ? `<span class="token-${token.kind}">${escapeHtml(token.text)}</span>` : escapeHtml(token.text)
+    ).join('')
+  }).join('\n')
+  
+  return `<pre class="code-block">${label ? `<span class="code-label">${escapeHtml(label)}</span>\n` : ''}` +
+    `<code${language ? ` class="language-${escapeHtml(language)}"` : ''}>${code}</code></pre>`
+}
+
+function renderHtmlTable(rows: TableRowData[]): string {
+  const grid = layoutTableGrid(rows)
+  const body = rows.map((row, r) => {
+    const tag = row.header ? 'th' : 'td'
+    const cells = grid[r].map(cell => {
+      if (!cell) return ''
+      const span = `${cell.colSpan ? ` colspan="${cell.colSpan}"` : ''}${cell.rowSpan ? ` rowspan="${cell.rowSpan}"` : ''}`
+      return `<${tag}${span}>${cell.paragraphs.map(spans => `<p>${renderHtmlSpans(spans)}</p>`).join('')}</${tag}>`
+    }).join('')
+    return `<tr>${cells}</tr>`
+  }).join('\n')
+  return `<table class="data-table">\n${body}\n</table>`
+}
+
+// Revision history, sign-off or glossary; empty when the section has nothing to show
+function renderHtmlTemplateSection(
+  section: Exclude<TemplateSection, 'table-of-contents'>,
+  content: ContentItem[],
+  organization: string,
+  author: string,
+  documentVersion: DocumentVersion
+): string {
+  const fixed = createFixedSection(section, content, { organization, author, documentVersion })
+  return fixed ? `<section class="template-section">\n<h2>${escapeHtml(fixed.title)}</h2>\n${renderHtmlTable(fixed.rows)}\n</section>\n` : ''
+}
+
+// Bullet glyphs and number formats per nesting level; deeper selectors win by specificity
+function createHtmlListStyles(profile: StyleProfile): string {
+  const numberStyles = ['decimal', 'lower-alpha', 'lower-roman']
+  return Array.from({ length: MAX_LIST_DEPTH + 1 }, (_, depth) => {
+    const parents = 'li '.repeat(depth)
+    const glyph = profile.bullets[depth % profile.bullets.length].replace(/['\\]/g, '\\$&')
+    return `main ${parents}ul { list-style-type: '${glyph}  '; }\nmain ${parents}ol { list-style-type: ${numberStyles[depth % numberStyles.length]}; }`
+  }).join('\n')
+}
+
+// Box, accent bar and label colors per callout kind
+function createHtmlCalloutStyles(profile: StyleProfile): string {
+  return CALLOUT_KINDS.map(kind => {
+    const { accent, background, border } = getCalloutColors(kind, profile)
+    return `aside.callout-${kind} { background: #${background}; border-color: #${border}; border-left-color: #${accent}; }\naside.callout-${kind} .callout-label { color: #${accent}; }`
+  }).join('\n')
+}
+
+function createHtmlStyles(profile: StyleProfile): string {
+  const { fonts, colors, sizes, spacing, margins, codeBlock } = profile
+  const pt = (halfPoints: number) => `${halfPoints / 2}pt`
+  const px = (twips: number) => `${Math.round(twips / 15)}px`
+  const box = (value: ParagraphSpacing) => `${px(value.before)} 0 ${px(value.after)}`
+  
+  return `
+body { margin: 0; background: #f3f4f6; font-family: '${fonts.body}', sans-serif; font-size: ${pt(sizes.body)}; color: #${colors.body}; line-height: 1.5; }
+.page { max-width: ${px(getContentWidth(profile))}; margin: 2rem auto; padding: ${px(margins.top)} ${px(margins.right)} ${px(margins.bottom)} ${px(margins.left)}; background: #fff; box-shadow: 0 1px 4px rgba(0, 0, 0, 0.12); }
+.title-page { text-align: center; padding: 6rem 0 4rem; }
+.title-page-left { text-align: left; padding: 4rem 0 3rem; }
+.title-page-left h1 { border-bottom: 3px solid #${colors.heading1}; padding-bottom: 8px; }
+.title-page-compact { text-align: left; padding: 0 0 1rem; margin-bottom: 1.5rem; border-bottom: 1px solid #${colors.secondary}; }
+.title-page h1 { font-family: '${fonts.heading}', sans-serif; font-size: ${pt(sizes.title)}; color: #${colors.title}; margin: 0 0 ${px(240)}; }
+.title-page .subtitle { font-family: '${fonts.heading}', sans-serif; font-size: ${pt(sizes.subtitle)}; color: #${colors.title}; margin: 0 0 ${px(240)}; }
+.title-page .organization { font-size: ${pt(sizes.organization)}; font-style: italic; margin: 0 0 ${px(120)}; }
+.title-page .date { font-size: ${pt(sizes.date)}; margin: 0 0 ${px(120)}; }
+.title-page .version { color: #${colors.secondary}; margin: 0; }
+.title-page .classification { font-weight: bold; color: #${colors.secondary}; margin: ${px(360)} 0 0; }
+.logos { display: flex; align-items: center; gap: 24px; margin: 0 0 ${px(240)}; }
+.logos-center { justify-content: center; }
+.logos-right { justify-content: flex-end; }
+.logos-spread .logo-client { margin-left: auto; }
+.watermark { position: fixed; top: 50%; left: 50%; transform: translate(-50%, -50%) rotate(-45deg); font-family: '${fonts.heading}', sans-serif; font-size: 9rem; font-weight: bold; color: #${colors.secondary}; opacity: 0.15; pointer-events: none; z-index: 1; }
+.toc { border-top: 1px solid #${colors.tableBorder}; border-bottom: 1px solid #${colors.tableBorder}; padding: 1rem 0; margin-bottom: 2rem; }
+.toc h2, .template-section h2 { text-align: center; font-family: '${fonts.heading}', sans-serif; font-size: ${pt(sizes.subtitle)}; color: #${colors.heading1}; margin: 0 0 ${px(300)}; }
+.toc ul { list-style: none; padding: 0; margin: 0; }
+.toc .toc-level-2 { padding-left: 1.5rem; }
+.toc .toc-level-3 { padding-left: 3rem; }
+.template-section { margin-bottom: 2rem; }
+h1, h2, h3 { font-family: '${fonts.heading}', sans-serif; }
+main h1 { font-size: ${pt(sizes.heading1)}; color: #${colors.heading1}; margin: ${box(spacing.heading1)}; }
+main h2 { font-size: ${pt(sizes.heading2)}; color: #${colors.heading2}; margin: ${box(spacing.heading2)}; }
+main h3 { font-size: ${pt(sizes.heading3)}; color: #${colors.heading3}; margin: ${box(spacing.heading3)}; }
+main p { margin: ${box(spacing.paragraph)}; }
+main li { margin: ${box(spacing.bullet)}; }
+main li li { margin: ${box(spacing.subBullet)}; }
+${createHtmlListStyles(profile)}
+a { color: #${colors.link}; }
+code { font-family: '${fonts.code}', monospace; background: #${codeBlock.background}; }
+pre.code-block { font-family: '${fonts.code}', monospace; font-size: ${pt(sizes.code)}; color: #${codeBlock.text}; background: #${codeBlock.background}; border: 1px solid #${codeBlock.border}; border-left: ${codeBlock.accentWidth / 8}pt solid #${codeBlock.accent}; padding: 0.5rem 0.75rem; overflow-x: auto; }
+pre.code-block .code-label { display: block; font-family: '${fonts.body}', sans-serif; font-weight: bold; font-size: ${pt(sizes.code - 2)}; color: #${codeBlock.accent}; border-bottom: 1px solid #${codeBlock.border}; margin-bottom: 0.25rem; }
+pre.code-block .line-number { color: #${colors.secondary}; user-select: none; }
+aside.callout { border: 1px solid; border-left: ${codeBlock.accentWidth / 8}pt solid; padding: 0.5rem 0.75rem; margin: 1rem 0; }
+aside.callout .callout-label { font-weight: bold; }
+${createHtmlCalloutStyles(profile)}
+.token-keyword { color: #${codeBlock.keyword}; }
+.token-string { color: #${codeBlock.string}; }
+.token-comment { color: #${codeBlock.comment}; font-style: italic; }
+.token-number { color: #${codeBlock.number}; }
+table.data-table { border-collapse: collapse; width: 100%; margin: 1rem 0; }
+table.data-table th, table.data-table td { border: 0.5pt solid #${colors.tableBorder}; padding: 4px 7px; vertical-align: top; text-align: left; }
+table.data-table th { background: #${colors.tableHeaderBg}; color: #${colors.tableHeaderText}; }
+table.data-table p { margin: 0; }
+figure { text-align: center; margin: 1rem 0; }
+figure img { max-width: 100%; height: auto; }
+figcaption { font-style: italic; color: #${colors.secondary}; }
+.end-of-document { text-align: center; font-style: italic; color: #${colors.secondary}; margin-top: 2rem; }
+`.trim()
+}
+
+// Title page logos, sized like the Word export: the profile's height, at most half the content width each
+function renderHtmlLogos(logos: DocumentLogos, organization: string, profile: StyleProfile): string {
+  const names = getLogoNames(organization)
+  const images = (['company', 'client'] as const).flatMap(role => {
+    const logo = logos[role]
+    if (!logo) return []
+    const { width, height } = getLogoSize(logo, profile.logos.height / 15, getContentWidth(profile) / 30)
+    return [`<img class="logo-${role}" src="${toLogoDataUri(logo)}" alt="${escapeHtml(names[role])}" width="${width}" height="${height}">`]
+  })
+  return images.length > 0 ? `<div class="logos logos-${profile.logos.alignment}">${images.join('')}</div>
+` : ''
+}
+
+// Standalone, self-contained HTML page: styles are inlined and images embedded as data URIs
+export function createHtmlDocument(
+  content: ContentItem[],
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  author: string,
+  options: FormatOptions = {}
+): string {
+  const profile = options.profile || DEFAULT_STYLE_PROFILE
+  const template = options.template || DEFAULT_TEMPLATE
+  const documentVersion = options.documentVersion || DEFAULT_DOCUMENT_VERSION
+  const body: string[] = []
+  const tocEntries: string[] = []
+  const tocDepth = getTocDepth(options)
+  let headingCount = 0
+  let figureNumber = 0
+  if (options.headingNumbers) content = numberHeadings(content)
+  
+  for (let i = 0; i < content.length; i++) {
+    const item = content[i]
+    switch (item.type) {
+      case 'heading1':
+      case 'heading2':
+      case 'heading3': {
+        const level = Number(item.type.slice(-1))
+        const id = `section-${++headingCount}`
+        if (level <= tocDepth) {
+          tocEntries.push(`<li class="toc-level-${level}"><a href="#${id}">${escapeHtml(getItemText(item))}</a></li>`)
+        }
+        body.push(`<h${level} id="${id}">${renderHtmlSpans(getItemSpans(item))}</h${level}>`)
+        break
+      }
+      
+      case 'paragraph':
+        body.push(`<p>${renderHtmlSpans(getItemSpans(item))}</p>`)
+        break
+        
+      case 'bullet':
+      case 'numbered': {
+        const listItems: ContentItem[] = []
+        while (i < content.length && isListItem(content[i])) {
+          listItems.push(content[i++])
+        }
+        i--
+        body.push(renderHtmlList(listItems))
+        break
+      }
+      
+      case 'code_block':
+        if (item.lines && item.lines.length > 0) {
+          body.push(renderHtmlCodeBlock(item.lines, item.language, options))
+        }
+        break
+        
+      case 'callout': {
+        const kind = item.callout || 'note'
+        body.push(`<aside class="callout callout-${kind}"><span class="callout-label">${CALLOUT_LABELS[kind]}:</span> ${renderHtmlSpans(getItemSpans(item))}</aside>`)
+        break
+      }
+      
+      case 'image':
+        if (item.image) {
+          const caption = getImageCaption(item, ++figureNumber, options.figureCaptions)
+          const alt = escapeHtml(item.image.altText || caption || '')
+          body.push(
+            `<figure><img src="${toDataUri(item.image)}" alt="${alt}" width="${item.image.width}">` +
+            `${caption ? `<figcaption>${escapeHtml(caption)}</figcaption>` : ''}</figure>`
+          )
+        }
+        break
+        
+      case 'table':
+        if (item.rows && item.rows.length > 0) {
+          body.push(renderHtmlTable(item.rows))
+        }
+        break
+    }
+  }
+  
+  const frontMatter = getFrontMatter(template, documentVersion).map(section => section === 'table-of-contents'
+    ? (tocEntries.length > 0 ? `<nav class="toc">\n<h2>Table of Contents</h2>\n<ul>\n${tocEntries.join('\n')}\n</ul>\n</nav>\n` : '')
+    : renderHtmlTemplateSection(section, content, organization, author, documentVersion))
+  const backMatter = template.backMatter.map(section => section === 'table-of-contents' ? '' : renderHtmlTemplateSection(section, content, organization, author, documentVersion))
+  
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(docTitle)}</title>
+${author ? `<meta name="author" content="${escapeHtml(author)}">\n` : ''}<style>
+${createHtmlStyles(profile)}
+</style>
+</head>
+<body>
+${options.draftWatermark ? '<div class="watermark" aria-hidden="true">DRAFT</div>\n' : ''}<div class="page">
+${options.logos ? renderHtmlLogos(options.logos, organization, profile) : ''}<header class="title-page title-page-${template.titlePage}">
+<h1>${escapeHtml(docTitle)}</h1>
+${subtitle ? `<p class="subtitle">${escapeHtml(subtitle)}</p>\n` : ''}<p class="organization">${escapeHtml(organization)}</p>
+<p class="date">${escapeHtml(formatIssueDate(template.datePrefix, documentVersion.issueDate))}</p>
+${template.showVersion ? `<p class="version">${escapeHtml(formatVersion(author, documentVersion))}</p>\n` : ''}${
+  options.confidentiality ? `<p class="classification">${escapeHtml(options.confidentiality)}</p>\n` : ''}</header>
+${frontMatter.join('')}<main>
+${body.join('\n')}
+</main>
+${backMatter.join('')}${template.closingLine ? `<p class="end-of-document">${escapeHtml(template.closingLine)}</p>\n` : ''}</div>
+</body>
+</html>
+`
+}
@@ -0,0 +1,86 @@
+// Company and client logos for the title page and running header
+
+import { ImageData, toBase64, fromBase64, toDataUri, encodeBinaryData } from './content'
+import { readImageData } from './classifier'
+
+export interface Logo {
+  image: ImageData // PNG or JPEG; for an SVG logo, the picture Word shows where it can't draw SVG
+  svg?: Uint8Array // Original markup of an SVG logo, used by every exporter that can draw it
+}
+
+export interface DocumentLogos {
+  company?: Logo // TechTorch's own logo
+  client?: Logo
+}
+
+export const LOGO_FILE_TYPES = '.png,.jpg,.jpeg,.svg'
+
+// Logos are kept in browser storage, which holds a few megabytes in all
+export const MAX_LOGO_BYTES = 1024 * 1024
+
+// Transparent pixel standing in for an SVG logo's picture until one is drawn from it (only browsers can)
+const BLANK_PNG = 'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII='
+
+// Natural size from the width and height attributes, else the viewBox; percentages don't count
+export function readSvgSize(markup: string): { width: number; height: number } | null {
+  const tag = /<svg\b[^>]*>/i.exec(markup)
+  if (!tag) return null
+
+  const length = (name: string) => {
+    const match = new RegExp(`\\s${name}\\s*=\\s*["']\\s*([\\d.]+)\\s*(px|pt)?\\s*["']`, 'i').exec(tag[0])
+    return match ? Number(match[1]) * (match[2] === 'pt' ? 4 / 3 : 1) : 0
+  }
+  const viewBox = /\sviewBox\s*=\s*["']([^"']+)["']/i.exec(tag[0])
+  const [, , boxWidth, boxHeight] = viewBox ? viewBox[1].trim().split(/[\s,]+/).map(Number) : []
+
+  const width = length('width') || boxWidth || 300
+  const height = length('height') || boxHeight || 100
+  return width > 0 && height > 0 ? { width, height } : null
+}
+
+// Throws unless the file is a PNG, JPEG or SVG image
+export function readLogo(data: Uint8Array, fileName: string): Logo {
+  const extension = (fileName.split('.').pop() || '').toLowerCase()
+  if (extension === 'svg') {
+    const size = readSvgSize(new TextDecoder().decode(data))
+    if (!size) throw new Error(`${fileName} is not an SVG image`)
+    return { svg: data, image: { data: fromBase64(BLANK_PNG), type: 'png', ...size } }
+  }
+
+  const isPng = extension === 'png' && data[0] === 0x89 && data[1] === 0x50
+  const isJpeg = (extension === 'jpg' || extension === 'jpeg') && data[0] === 0xff && data[1] === 0xd8
+  const image = isPng || isJpeg ? readImageData(data, isPng ? 'image/png' : 'image/jpeg') : null
+  if (!image) throw new Error(`${fileName}: logos must be PNG, JPEG or SVG images`)
+  return { image }
+}
+
+// Display size in the caller's units: `height` tall unless that would make the logo wider than `maxWidth`
+export function getLogoSize(logo: Logo, height: number, maxWidth: number): { width: number; height: number } {
+  const { width: naturalWidth, height: naturalHeight } = logo.image
+  const scale = Math.min(height / naturalHeight, maxWidth / naturalWidth)
+  return { width: Math.round(naturalWidth * scale), height: Math.round(naturalHeight * scale) }
+}
+
+// SVG logos keep their markup wherever an image can be a data URI
+export function toLogoDataUri(logo: Logo): string {
+  return logo.svg ? `data:image/svg+xml;base64,${toBase64(logo.svg)}` : toDataUri(logo.image)
+}
+
+// Logos as JSON for browser storage, image bytes in base64
+export function serializeLogos(logos: DocumentLogos): string {
+  return JSON.stringify(logos, encodeBinaryData)
+}
+
+export function parseLogos(json: string): DocumentLogos {
+  const raw = JSON.parse(json) as Record<keyof DocumentLogos, { image: ImageData & { data: string }; svg?: string } | undefined>
+  const logos: DocumentLogos = {}
+  for (const role of ['company', 'client'] as const) {
+    const logo = raw[role]
+    if (!logo) continue
+    logos[role] = {
+      image: { ...logo.image, data: fromBase64(logo.image.data) },
+      svg: logo.svg ? fromBase64(logo.svg) : undefined,
+    }
+  }
+  return logos
+}
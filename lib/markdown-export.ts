@@ -0,0 +1,162 @@
+// Markdown export (GitHub flavored). Shared by the page, the command-line formatter and the API;
+// reading Markdown input is lib/markdown.
+
+import { TextSpan, TableCellData, TableRowData, ContentItem, isListItem, getItemSpans, toDataUri } from './content'
+import { numberHeadings } from './headings'
+import { FormatOptions, formatIssueDate, formatVersion, getImageCaption, getLogoNames, layoutTableGrid } from './docx'
+import { TemplateSection, DEFAULT_TEMPLATE, getFrontMatter, createFixedSection } from './templates'
+import { DEFAULT_DOCUMENT_VERSION } from './revisions'
+import { toLogoDataUri } from './logos'
+
+function escapeMarkdown(text: string): string {
+  // Underscores inside words (Account__c) are left alone, matching the input parser
+  return text.replace(/[\\`*[\]<>~|]|(?<!\w)_|_(?!\w)/g, '\\$&')
+}
+
+// Backtick fence longer than any backtick run inside the text
+function markdownFence(text: string, minimum: number): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) || []).map(run => run.length))
+  return '`'.repeat(Math.max(minimum, longest + 1))
+}
+
+function renderMarkdownSpans(spans: TextSpan[]): string {
+  return spans.map(span => {
+    if (!span.text.trim()) return span.text
+    
+    // Emphasis markers can't sit against whitespace, so keep it outside them
+    const [, leading, inner, trailing] = span.text.match(/^(\s*)([\s\S]*?)(\s*)$/) || ['', '', span.text, '']
+    let markdown: string
+    if (span.code) {
+      const fence = markdownFence(inner, 1)
+      const padding = inner.startsWith('`') || inner.endsWith('`') ? ' ' : ''
+      markdown = `${fence}${padding}${inner}${padding}${fence}`
+    } else {
+      markdown = escapeMarkdown(inner)
+    }
+    if (span.strike) markdown = `~~${markdown}~~`
+    if (span.italic) markdown = `*${markdown}*`
+    if (span.bold) markdown = `**${markdown}**`
+    if (span.underline && !span.link) markdown = `<u>${markdown}</u>`
+    if (span.link) markdown = `[${markdown}](${span.link.replace(/[()\s]/g, c => `%${c.charCodeAt(0).toString(16).toUpperCase().padStart(2, '0')}`)})`
+    return `${leading}${markdown}${trailing}`
+  }).join('')
+}
+
+function renderMarkdownTable(rows: TableRowData[]): string {
+  const grid = layoutTableGrid(rows)
+  const cellText = (cell: TableCellData | null) =>
+    cell ? cell.paragraphs.map(spans => renderMarkdownSpans(spans).replace(/\n/g, ' ')).join('<br>') : ''
+  const line = (cells: string[]) => `| ${cells.join(' | ')} |`
+  
+  // Pipe tables need exactly one header row; the first row serves as it
+  return [
+    line(grid[0].map(cellText)),
+    line(grid[0].map(() => '---')),
+    ...grid.slice(1).map(row => line(row.map(cellText))),
+  ].join('\n')
+}
+
+export function createMarkdownDocument(
+  content: ContentItem[],
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  author: string,
+  options: FormatOptions = {}
+): string {
+  const template = options.template || DEFAULT_TEMPLATE
+  const documentVersion = options.documentVersion || DEFAULT_DOCUMENT_VERSION
+  const blocks: string[] = []
+  let figureNumber = 0
+  if (options.headingNumbers) content = numberHeadings(content)
+  
+  // Fixed sections as a heading and table; there is no table of contents in Markdown
+  const pushSections = (sections: TemplateSection[]) => sections.forEach(section => {
+    const fixed = section === 'table-of-contents' ? null : createFixedSection(section, content, { organization, author, documentVersion })
+    if (fixed) blocks.push(`## ${fixed.title}`, renderMarkdownTable(fixed.rows))
+  })
+  
+  // Title page; content headings move down a level beneath the document title
+  const names = getLogoNames(organization)
+  const logos = (['company', 'client'] as const).flatMap(role => {
+    const logo = options.logos && options.logos[role]
+    return logo ? [`![${escapeMarkdown(names[role])}](${toLogoDataUri(logo)})`] : []
+  })
+  if (logos.length > 0) blocks.push(logos.join(' '))
+  blocks.push(`# ${escapeMarkdown(docTitle)}`)
+  if (subtitle) blocks.push(`*${escapeMarkdown(subtitle)}*`)
+  blocks.push(
+    [organization, formatIssueDate(template.datePrefix, documentVersion.issueDate), template.showVersion ? formatVersion(author, documentVersion) : '']
+      .filter(Boolean)
+      .map(escapeMarkdown)
+      .concat(options.confidentiality ? [`**${escapeMarkdown(options.confidentiality)}**`] : [])
+      .join('  \n')
+  )
+  pushSections(getFrontMatter(template, documentVersion))
+  blocks.push('---')
+  
+  for (let i = 0; i < content.length; i++) {
+    const item = content[i]
+    switch (item.type) {
+      case 'heading1':
+      case 'heading2':
+      case 'heading3':
+        blocks.push(`${'#'.repeat(Number(item.type.slice(-1)) + 1)} ${renderMarkdownSpans(getItemSpans(item))}`)
+        break
+        
+      case 'paragraph':
+        blocks.push(renderMarkdownSpans(getItemSpans(item)))
+        break
+        
+      case 'bullet':
+      case 'numbered': {
+        // Consecutive list items form a single block
+        const lines: string[] = []
+        const indents = [''] // Nested items line up with the text of their parent item
+        while (i < content.length && isListItem(content[i])) {
+          const listItem = content[i++]
+          const depth = Math.min(listItem.depth || 0, indents.length - 1)
+          const marker = listItem.type === 'numbered' ? `${listItem.number || 1}.` : '-'
+          indents.length = depth + 1
+          indents.push(indents[depth] + ' '.repeat(marker.length + 1))
+          lines.push(`${indents[depth]}${marker} ${renderMarkdownSpans(getItemSpans(listItem))}`)
+        }
+        i--
+        blocks.push(lines.join('\n'))
+        break
+      }
+      
+      case 'code_block':
+        if (item.lines && item.lines.length > 0) {
+          const code = item.lines.join('\n')
+          const fence = markdownFence(code, 3)
+          blocks.push(`${fence}${item.language || ''}\n${code}\n${fence}`)
+        }
+        break
+        
+      case 'callout':
+        // GitHub alert syntax; other renderers show it as a quote opening with the label
+        blocks.push(`> [!${(item.callout || 'note').toUpperCase()}]\n> ${renderMarkdownSpans(getItemSpans(item))}`)
+        break
+        
+      case 'image':
+        if (item.image) {
+          const caption = getImageCaption(item, ++figureNumber, options.figureCaptions)
+          const alt = (item.image.altText || caption || '').replace(/[[\]\\]/g, '\\$&')
+          blocks.push(`![${alt}](${toDataUri(item.image)})${caption ? `\n\n*${escapeMarkdown(caption)}*` : ''}`)
+        }
+        break
+        
+      case 'table':
+        if (item.rows && item.rows.length > 0) {
+          blocks.push(renderMarkdownTable(item.rows))
+        }
+        break
+    }
+  }
+  
+  if (template.backMatter.length > 0 || template.closingLine) blocks.push('---')
+  pushSections(template.backMatter)
+  if (template.closingLine) blocks.push(`*${escapeMarkdown(template.closingLine)}*`)
+  return blocks.join('\n\n') + '\n'
+}
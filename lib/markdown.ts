@@ -0,0 +1,217 @@
+// Markdown input: a deterministic mapping, no heuristics needed
+
+import { TextSpan, TableRowData, ContentItem, MAX_LIST_DEPTH, trimRuns, expandTabs, renumberLists } from './content'
+import { normalizeCodeLanguage, detectCodeLanguage } from './code-languages'
+import { matchCalloutPrefix } from './callouts'
+
+// Inline syntax, in priority order. Underscore emphasis must not fire inside words so
+// Salesforce names like Account__c and blng__Invoice__c survive.
+const MARKDOWN_INLINE_PATTERN = new RegExp([
+  /\\([\\`*_{}[\]()#+\-.!~<>|])/.source,                         // 1: escaped character
+  /(`+)([\s\S]*?[^`])\2(?!`)/.source,                               // 2,3: code span
+  /!\[([^\]]*)\]\(([^)\s]*)(?:\s+"[^"]*")?\)/.source,                 // 4,5: image
+  /\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)(?:\s+"[^"]*")?\)/.source,   // 6,7: link (URLs may hold balanced parentheses)
+  /<(https?:\/\/[^>\s]+)>/.source,                                  // 8: autolink
+  /\*\*\*(?=\S)([\s\S]*?\S)\*\*\*/.source,                               // 9: bold italic
+  /\*\*(?=\S)([\s\S]*?\S)\*\*|(?<!\w)__(?=\S)([\s\S]*?\S)__(?!\w)/.source, // 10,11: bold
+  /~~(?=\S)([\s\S]*?\S)~~/.source,                                   // 12: strikethrough
+  /\*(?=\S)([\s\S]*?\S)\*|(?<!\w)_(?=\S)([\s\S]*?\S)_(?!\w)/.source,     // 13,14: italic
+].join('|'), 'g')
+
+type SpanStyle = Omit<TextSpan, 'text'>
+
+function parseMarkdownInline(text: string, style: SpanStyle = {}): TextSpan[] {
+  const spans: TextSpan[] = []
+  const pushText = (value: string, extra: SpanStyle = {}) => {
+    if (value) spans.push({ text: value, ...style, ...extra })
+  }
+  
+  let last = 0
+  for (const match of Array.from(text.matchAll(MARKDOWN_INLINE_PATTERN))) {
+    const index = match.index ?? 0
+    pushText(text.slice(last, index))
+    last = index + match[0].length
+    
+    const g = match
+    if (g[1] !== undefined) pushText(g[1])
+    else if (g[3] !== undefined) pushText(g[3].replace(/^ (.*) $/, '$1'), { code: true })
+    else if (g[5] !== undefined) pushText(g[4] || g[5], { link: g[5] }) // Remote images can't be fetched here; keep a link
+    else if (g[7] !== undefined) spans.push(...parseMarkdownInline(g[6], { ...style, link: g[7] }))
+    else if (g[8] !== undefined) pushText(g[8], { link: g[8] })
+    else if (g[9] !== undefined) spans.push(...parseMarkdownInline(g[9], { ...style, bold: true, italic: true }))
+    else if (g[10] !== undefined || g[11] !== undefined) spans.push(...parseMarkdownInline(g[10] ?? g[11], { ...style, bold: true }))
+    else if (g[12] !== undefined) spans.push(...parseMarkdownInline(g[12], { ...style, strike: true }))
+    else if (g[13] !== undefined || g[14] !== undefined) spans.push(...parseMarkdownInline(g[13] ?? g[14], { ...style, italic: true }))
+  }
+  pushText(text.slice(last))
+  
+  return trimRuns(spans)
+}
+
+function createMarkdownItem(type: ContentItem['type'], markdown: string): ContentItem {
+  const runs = parseMarkdownInline(markdown.trim())
+  return { type, text: runs.map(r => r.text).join(''), runs, confidence: 100, source: 'structure' }
+}
+
+// Split a pipe-table row into cell strings, honouring escaped pipes
+function splitMarkdownTableRow(line: string): string[] {
+  const trimmed = line.trim().replace(/^\|/, '').replace(/(?<!\\)\|$/, '')
+  return trimmed.split(/(?<!\\)\|/).map(cell => cell.trim().replace(/\\\|/g, '|'))
+}
+
+const MARKDOWN_TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/
+
+export function parseMarkdown(markdown: string): ContentItem[] {
+  const lines = markdown.replace(/\r\n?/g, '\n').split('\n')
+  const content: ContentItem[] = []
+  let paragraph: string[] = []
+  
+  // Open list state: indentation of each nesting level, and the item continuation lines join
+  let listIndents: number[] = []
+  let listItem: { index: number; type: ContentItem['type']; depth: number; markdown: string; afterBlank: boolean } | null = null
+  
+  // A paragraph or block quote opening with "Note:", "**Warning:**" or a GitHub alert such as "[!TIP]" is a callout
+  const flushParagraph = () => {
+    const markdown = paragraph.join(' ')
+    const callout = matchCalloutPrefix(markdown)
+    if (callout && callout.length < markdown.length) {
+      content.push({ ...createMarkdownItem('callout', markdown.slice(callout.length)), callout: callout.kind })
+    } else if (paragraph.length > 0) {
+      content.push(createMarkdownItem('paragraph', markdown))
+    }
+    paragraph = []
+  }
+  const closeListItem = () => {
+    if (listItem) content[listItem.index] = { ...createMarkdownItem(listItem.type, listItem.markdown), depth: listItem.depth }
+    listItem = null
+  }
+  const endList = () => {
+    closeListItem()
+    listIndents = []
+  }
+  const indentWidth = (whitespace: string) => whitespace.replace(/\t/g, '    ').length
+  
+  let i = 0
+  while (i < lines.length) {
+    const line = lines[i]
+    
+    // Fenced code block, keeping the language from the info string
+    const fence = line.match(/^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/)
+    if (fence) {
+      flushParagraph()
+      endList()
+      const closing = new RegExp(`^\\s{0,3}${fence[1][0] === '`' ? '`' : '~'}{${fence[1].length},}\\s*$`)
+      const codeLines: string[] = []
+      i++
+      while (i < lines.length && !closing.test(lines[i])) {
+        codeLines.push(expandTabs(lines[i]))
+        i++
+      }
+      i++ // Skip the closing fence
+      const language = normalizeCodeLanguage(fence[2]) || fence[2] || detectCodeLanguage(codeLines)
+      content.push({ type: 'code_block', lines: codeLines, language, confidence: 100, source: 'structure' })
+      continue
+    }
+    
+    if (line.trim() === '') {
+      flushParagraph()
+      if (listItem) listItem.afterBlank = true
+      i++
+      continue
+    }
+    
+    // Setext headings underline the paragraph text above them
+    if (paragraph.length > 0 && /^\s{0,3}(=+|-+)\s*$/.test(line)) {
+      content.push(createMarkdownItem(line.trim()[0] === '=' ? 'heading1' : 'heading2', paragraph.join(' ')))
+      paragraph = []
+      i++
+      continue
+    }
+    
+    const heading = line.match(/^\s{0,3}(#{1,6})\s+(.*?)(?:\s+#+)?\s*$/)
+    if (heading) {
+      flushParagraph()
+      endList()
+      const level = Math.min(heading[1].length, 3)
+      content.push(createMarkdownItem(`heading${level}` as ContentItem['type'], heading[2]))
+      i++
+      continue
+    }
+    
+    // Horizontal rules have no equivalent in the formatted output
+    if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+      flushParagraph()
+      endList()
+      i++
+      continue
+    }
+    
+    // Pipe tables need a header separator row directly under the header
+    if (line.includes('|') && i + 1 < lines.length && MARKDOWN_TABLE_SEPARATOR.test(lines[i + 1]) && lines[i + 1].includes('-')) {
+      flushParagraph()
+      endList()
+      const toRow = (row: string, header: boolean): TableRowData => ({
+        cells: splitMarkdownTableRow(row).map(cell => ({ paragraphs: cell ? [parseMarkdownInline(cell)] : [] })),
+        header: header || undefined,
+      })
+      const rows = [toRow(line, true)]
+      i += 2
+      while (i < lines.length && lines[i].trim() !== '' && lines[i].includes('|')) {
+        rows.push(toRow(lines[i], false))
+        i++
+      }
+      const text = rows.flatMap(r => r.cells.flatMap(c => c.paragraphs.map(p => p.map(s => s.text).join('')))).join(' ')
+      content.push({ type: 'table', text, rows, confidence: 100, source: 'structure' })
+      continue
+    }
+    
+    const listMatch = line.match(/^(\s*)([-*+]|(\d+)[.)])\s+(.*)$/)
+    if (listMatch) {
+      flushParagraph()
+      closeListItem()
+      
+      // Nesting depth comes from comparing indentation with the open list levels
+      const indent = indentWidth(listMatch[1])
+      while (listIndents.length > 0 && listIndents[listIndents.length - 1] > indent) listIndents.pop()
+      if (listIndents.length === 0 || listIndents[listIndents.length - 1] < indent) listIndents.push(indent)
+      const depth = Math.min(listIndents.length - 1, MAX_LIST_DEPTH)
+      
+      // Numbers are assigned at the end
+      const type: ContentItem['type'] = listMatch[3] !== undefined ? 'numbered' : 'bullet'
+      listItem = { index: content.length, type, depth, markdown: listMatch[4], afterBlank: false }
+      content.push({ type })
+      i++
+      continue
+    }
+    
+    // Following lines continue the open list item; after a blank line they must be indented
+    if (listItem && (!listItem.afterBlank || /^\s{2,}/.test(line))) {
+      listItem.markdown += ` ${line.trim()}`
+      listItem.afterBlank = false
+      i++
+      continue
+    }
+    endList()
+    
+    // Indented code block (not inside a list or paragraph)
+    if (paragraph.length === 0 && /^( {4}|\t)/.test(line)) {
+      const codeLines: string[] = []
+      while (i < lines.length && (/^( {4}|\t)/.test(lines[i]) || lines[i].trim() === '')) {
+        codeLines.push(expandTabs(lines[i].replace(/^( {4}|\t)/, '')))
+        i++
+      }
+      while (codeLines.length > 0 && codeLines[codeLines.length - 1].trim() === '') codeLines.pop()
+      content.push({ type: 'code_block', lines: codeLines, language: detectCodeLanguage(codeLines), confidence: 100, source: 'structure' })
+      continue
+    }
+    
+    // Block quotes have no dedicated style; their text becomes body paragraphs, or a callout when labeled
+    paragraph.push(line.replace(/^\s{0,3}>\s?/, '').trim())
+    i++
+  }
+  
+  flushParagraph()
+  endList()
+  
+  return renumberLists(content)
+}
@@ -0,0 +1,411 @@
+// PDF export. Shared by the page, the command-line formatter and the API.
+
+import type { Column, Content, TableCell as PdfTableCell, TDocumentDefinitions } from 'pdfmake/interfaces'
+import { TextSpan, TableRowData, ContentItem, getItemText, getItemSpans, toDataUri } from './content'
+import { normalizeCodeLanguage, tokenizeCode, getCodeLanguageLabel } from './code-languages'
+import { isHeading, getHeadingDepth, numberHeadings } from './headings'
+import { CalloutKind, CALLOUT_LABELS } from './callouts'
+import { StyleProfile, LogoAlignment, DEFAULT_STYLE_PROFILE, getContentWidth, getCalloutColors } from './style-profiles'
+import {
+  FormatOptions,
+  getTokenColor,
+  formatIssueDate,
+  formatVersion,
+  getImageCaption,
+  getTocDepth,
+  getDocumentKeywords,
+  getRunningText,
+  layoutTableGrid,
+} from './docx'
+import { TemplateSection, DEFAULT_TEMPLATE, getFrontMatter, createFixedSection } from './templates'
+import { DEFAULT_DOCUMENT_VERSION } from './revisions'
+import { Logo, getLogoSize } from './logos'
+
+// Same 1. → a. → i. cycle as the Word numbering definitions
+function formatListNumber(number: number, depth: number): string {
+  switch (depth % 3) {
+    case 1: {
+      let letters = ''
+      for (let n = number; n > 0; n = Math.floor((n - 1) / 26)) {
+        letters = String.fromCharCode(97 + ((n - 1) % 26)) + letters
+      }
+      return letters
+    }
+    case 2: {
+      const numerals: [number, string][] = [[1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'], [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i']]
+      let roman = ''
+      let remaining = number
+      for (const [value, numeral] of numerals) {
+        while (remaining >= value) {
+          roman += numeral
+          remaining -= value
+        }
+      }
+      return roman
+    }
+    default:
+      return String(number)
+  }
+}
+
+function createPdfSpans(spans: TextSpan[], profile: StyleProfile): Content[] {
+  return spans.map(span => ({
+    text: span.text,
+    bold: span.bold || undefined,
+    italics: span.italic || undefined,
+    decoration: span.underline || span.link ? 'underline' : span.strike ? 'lineThrough' : undefined,
+    color: span.link ? `#${profile.colors.link}` : undefined,
+    background: span.code ? `#${profile.codeBlock.background}` : undefined,
+    link: span.link,
+  }))
+}
+
+function createPdfCodeBlock(lines: string[], language: string | undefined, profile: StyleProfile, options: FormatOptions): Content {
+  const { codeBlock } = profile
+  const label = options.codeLanguageLabels ? getCodeLanguageLabel(language) : undefined
+  const numberWidth = String(lines.length).length
+  const body: Content[][] = tokenizeCode(lines, normalizeCodeLanguage(language)).map((tokens, index) => [{
+    text: [
+      ...(options.codeLineNumbers ? [{ text: `${String(index + 1).padStart(numberWidth)}  `, color: `#${profile.colors.secondary}` }] : []),
+      ...tokens.map(token => ({ text: token.text, color: `#${getTokenColor(token.kind, profile)}`, italics: token.kind === 'comment' || undefined })),
+      ...(tokens.length === 0 ? [' '] : []),
+    ],
+    fontSize: profile.sizes.code / 2,
+    preserveLeadingSpaces: true,
+  }])
+  if (label) {
+    body.unshift([{ text: label, bold: true, fontSize: (profile.sizes.code - 2) / 2, color: `#${codeBlock.accent}` }])
+  }
+  
+  return {
+    margin: [0, 6, 0, 6],
+    table: {
+      widths: ['*'],
+      body,
+    },
+    layout: {
+      fillColor: () => `#${codeBlock.background}`,
+      hLineWidth: (i, node) => (i === 0 || i === node.table.body.length || (label && i === 1) ? 0.5 : 0),
+      vLineWidth: i => (i === 0 ? codeBlock.accentWidth / 8 : 0.5),
+      hLineColor: () => `#${codeBlock.border}`,
+      vLineColor: i => `#${i === 0 ? codeBlock.accent : codeBlock.border}`,
+      paddingTop: () => 1,
+      paddingBottom: () => 1,
+    },
+  }
+}
+
+function createPdfCallout(kind: CalloutKind, spans: Content[], profile: StyleProfile): Content {
+  const { accent, background, border } = getCalloutColors(kind, profile)
+  return {
+    margin: [0, 6, 0, 6],
+    table: {
+      widths: ['*'],
+      body: [[{ text: [{ text: `${CALLOUT_LABELS[kind]}: `, bold: true, color: `#${accent}` }, ...spans] }]],
+    },
+    layout: {
+      fillColor: () => `#${background}`,
+      hLineWidth: () => 0.5,
+      vLineWidth: i => (i === 0 ? profile.codeBlock.accentWidth / 8 : 0.5),
+      hLineColor: () => `#${border}`,
+      vLineColor: i => `#${i === 0 ? accent : border}`,
+      paddingLeft: () => 8,
+      paddingRight: () => 8,
+      paddingTop: () => 4,
+      paddingBottom: () => 4,
+    },
+  }
+}
+
+function createPdfTable(rows: TableRowData[], profile: StyleProfile): Content {
+  const { colors } = profile
+  const grid = layoutTableGrid(rows)
+  let headerRows = 0
+  while (headerRows < rows.length && rows[headerRows].header) headerRows++
+  
+  return {
+    margin: [0, 6, 0, 6],
+    table: {
+      headerRows,
+      widths: grid[0].map(() => '*'),
+      body: grid.map((cells, r) => cells.map((cell): PdfTableCell => {
+        if (!cell) return {}
+        const header = rows[r].header
+        return {
+          stack: (cell.paragraphs.length > 0 ? cell.paragraphs : [[]]).map(spans => ({ text: createPdfSpans(spans, profile) })),
+          colSpan: cell.colSpan,
+          rowSpan: cell.rowSpan,
+          bold: header || undefined,
+          color: `#${header ? colors.tableHeaderText : colors.body}`,
+          fillColor: header ? `#${colors.tableHeaderBg}` : undefined,
+        }
+      })),
+    },
+    layout: {
+      hLineWidth: () => 0.5,
+      vLineWidth: () => 0.5,
+      hLineColor: () => `#${colors.tableBorder}`,
+      vLineColor: () => `#${colors.tableBorder}`,
+    },
+  }
+}
+
+// A logo `height` points tall and at most `maxWidth` wide; pdfmake draws SVG markup itself
+function createPdfLogo(logo: Logo, height: number, maxWidth: number): Content {
+  const size = getLogoSize(logo, height, maxWidth)
+  return logo.svg ? { svg: new TextDecoder().decode(logo.svg), ...size } : { image: toDataUri(logo.image), ...size }
+}
+
+// Logos side by side, with filler columns taking up the space the alignment leaves around them
+function createPdfLogoRow(company: Content | null, client: Content | null, alignment: LogoAlignment): Column[] {
+  const logos = [company, client].filter((logo): logo is Content => logo !== null)
+  const fill = (): Column => ({ text: '', width: '*' })
+  switch (alignment) {
+    case 'left': return [...logos, fill()]
+    case 'center': return [fill(), ...logos, fill()]
+    case 'right': return [fill(), ...logos]
+    case 'spread': return [...(company ? [company] : []), fill(), ...(client ? [client] : [])]
+  }
+}
+
+// The pdfmake document definition; createPdf renders it
+export function createPdfDefinition(
+  content: ContentItem[],
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  author: string,
+  options: FormatOptions = {}
+): TDocumentDefinitions {
+  const profile = options.profile || DEFAULT_STYLE_PROFILE
+  const template = options.template || DEFAULT_TEMPLATE
+  const documentVersion = options.documentVersion || DEFAULT_DOCUMENT_VERSION
+  const { colors, sizes, spacing, margins } = profile
+  const pt = (twips: number) => twips / 20
+  const body: Content[] = []
+  let figureNumber = 0
+  if (options.headingNumbers) content = numberHeadings(content)
+  
+  // ---- TITLE PAGE ----
+  const alignment = template.titlePage === 'cover' ? 'center' : 'left'
+  const logos = options.logos || {}
+  const maxLogoWidth = pt(getContentWidth(profile)) / 2
+  const createLogo = (logo: Logo | undefined, height: number) => (logo ? createPdfLogo(logo, pt(height), maxLogoWidth) : null)
+  if (logos.company || logos.client) {
+    body.push({
+      columns: createPdfLogoRow(createLogo(logos.company, profile.logos.height), createLogo(logos.client, profile.logos.height), profile.logos.alignment),
+      columnGap: 18,
+      margin: [0, 0, 0, pt(240)],
+    })
+  }
+  const rule = (lineWidth: number, color: string, margin: [number, number, number, number]): Content => ({
+    canvas: [{ type: 'line', x1: 0, y1: 0, x2: pt(getContentWidth(profile)), y2: 0, lineWidth, lineColor: `#${color}` }],
+    margin,
+  })
+  const titleTop = { cover: 120, left: 80, compact: 0 }[template.titlePage]
+  body.push({ text: docTitle, bold: true, fontSize: sizes.title / 2, color: `#${colors.title}`, alignment, margin: [0, titleTop, 0, pt(240)] })
+  if (template.titlePage === 'left') body.push(rule(2.25, colors.heading1, [0, -pt(160), 0, pt(240)]))
+  if (subtitle) {
+    body.push({ text: subtitle, fontSize: sizes.subtitle / 2, color: `#${colors.title}`, alignment, margin: [0, 0, 0, pt(240)] })
+  }
+  body.push({ text: organization, italics: true, fontSize: sizes.organization / 2, alignment, margin: [0, 0, 0, pt(120)] })
+  body.push({ text: formatIssueDate(template.datePrefix, documentVersion.issueDate), fontSize: sizes.date / 2, alignment, margin: [0, 0, 0, pt(120)] })
+  if (template.showVersion) body.push({ text: formatVersion(author, documentVersion), color: `#${colors.secondary}`, alignment })
+  if (options.confidentiality) {
+    body.push({ text: options.confidentiality, bold: true, color: `#${colors.secondary}`, alignment, margin: [0, pt(360), 0, 0] })
+  }
+  body.push(template.titlePage === 'compact' ? rule(0.75, colors.secondary, [0, 4, 0, 12]) : { text: '', pageBreak: 'after' })
+  
+  // ---- FRONT MATTER ----
+  // Each section on its own page; the table of contents is left out, as in Word, when turned off
+  // or when there are no headings to list
+  const tocDepth = getTocDepth(options)
+  const sectionTitle = (text: string, pageBreak?: 'before'): Content => ({
+    text,
+    pageBreak,
+    bold: true,
+    fontSize: sizes.subtitle / 2,
+    color: `#${colors.heading1}`,
+    alignment: 'center',
+    margin: [0, 0, 0, pt(300)],
+  })
+  const createSection = (section: Exclude<TemplateSection, 'table-of-contents'>, pageBreak?: 'before'): Content[] => {
+    const fixed = createFixedSection(section, content, { organization, author, documentVersion })
+    return fixed ? [sectionTitle(fixed.title, pageBreak), createPdfTable(fixed.rows, profile)] : []
+  }
+  for (const section of getFrontMatter(template, documentVersion)) {
+    const sectionContent: Content[] = section !== 'table-of-contents'
+      ? createSection(section)
+      : content.some(item => isHeading(item) && getHeadingDepth(item) <= tocDepth)
+        ? [{ toc: { title: sectionTitle('Table of Contents') } }]
+        : []
+    if (sectionContent.length > 0) body.push(...sectionContent, { text: '', pageBreak: 'after' })
+  }
+  
+  // ---- MAIN CONTENT ----
+  for (const item of content) {
+    const spans = createPdfSpans(getItemSpans(item), profile)
+    switch (item.type) {
+      case 'heading1':
+      case 'heading2':
+      case 'heading3': {
+        const level = Number(item.type.slice(-1)) as 1 | 2 | 3
+        const headingSpacing = spacing[`heading${level}`]
+        // Table of contents entries take plain text only
+        body.push({
+          text: getItemText(item),
+          bold: true,
+          fontSize: sizes[`heading${level}`] / 2,
+          color: `#${colors[`heading${level}`]}`,
+          margin: [0, pt(headingSpacing.before), 0, pt(headingSpacing.after)],
+          headlineLevel: level,
+          tocItem: level <= tocDepth,
+          tocMargin: [(level - 1) * 12, 0, 0, 2],
+        })
+        break
+      }
+      
+      case 'paragraph':
+        body.push({ text: spans, margin: [0, pt(spacing.paragraph.before), 0, pt(spacing.paragraph.after)] })
+        break
+        
+      case 'bullet':
+      case 'numbered': {
+        const depth = item.depth || 0
+        const itemSpacing = depth > 0 ? spacing.subBullet : spacing.bullet
+        const marker = item.type === 'numbered'
+          ? `${formatListNumber(item.number || 1, depth)}.`
+          : profile.bullets[depth % profile.bullets.length]
+        body.push({
+          columns: [
+            { text: marker, width: 18, bold: item.type === 'numbered' },
+            { text: spans, width: '*' },
+          ],
+          columnGap: 0,
+          margin: [pt(720 + depth * 360) - 18, pt(itemSpacing.before), 0, pt(itemSpacing.after)],
+        })
+        break
+      }
+      
+      case 'code_block':
+        if (item.lines && item.lines.length > 0) {
+          body.push(createPdfCodeBlock(item.lines, item.language, profile, options))
+        }
+        break
+        
+      case 'callout':
+        body.push(createPdfCallout(item.callout || 'note', spans, profile))
+        break
+        
+      case 'image':
+        if (item.image) {
+          const caption = getImageCaption(item, ++figureNumber, options.figureCaptions)
+          // pdfmake only embeds PNG and JPEG; other formats are noted in their place
+          if (item.image.type === 'png' || item.image.type === 'jpg') {
+            const scale = Math.min(1, getContentWidth(profile) / 15 / item.image.width, 800 / item.image.height)
+            body.push({
+              image: toDataUri(item.image),
+              width: item.image.width * scale * 0.75, // 0.75 points per pixel
+              alignment: 'center',
+              margin: [0, 6, 0, 3],
+            })
+          } else {
+            body.push({ text: `[Image: ${item.image.altText || item.image.type.toUpperCase()}]`, italics: true, color: `#${colors.secondary}`, alignment: 'center' })
+          }
+          if (caption) {
+            body.push({ text: caption, italics: true, color: `#${colors.secondary}`, alignment: 'center', margin: [0, 0, 0, 8] })
+          }
+        }
+        break
+        
+      case 'table':
+        if (item.rows && item.rows.length > 0) {
+          body.push(createPdfTable(item.rows, profile))
+        }
+        break
+    }
+  }
+  
+  // ---- BACK MATTER ----
+  for (const section of template.backMatter) {
+    if (section === 'table-of-contents') continue // Only listed at the front
+    body.push(...createSection(section, 'before'))
+  }
+  
+  // ---- END OF DOCUMENT ----
+  if (template.closingLine) {
+    body.push({ text: template.closingLine, italics: true, color: `#${colors.secondary}`, alignment: 'center', margin: [0, 20, 0, 0] })
+  }
+  
+  // Running header and footer with the page number fields filled in per page. A different first
+  // page leaves the running text off the title page but keeps the marking.
+  const { header: headerText, footer: footerText } = getRunningText(docTitle, subtitle, organization, options)
+  const differentFirstPage = options.differentFirstPage !== false
+  const headerLogos = options.headerLogos && (logos.company || logos.client)
+  const fillPageNumbers = (text: string, currentPage: number, pageCount: number) =>
+    differentFirstPage && currentPage === 1 ? '' : text.replace(/\{page\}/g, String(currentPage)).replace(/\{pages\}/g, String(pageCount))
+  
+  return {
+    pageSize: 'LETTER',
+    pageMargins: [pt(margins.left), pt(margins.top), pt(margins.right), pt(margins.bottom)],
+    info: { title: docTitle, author: author || undefined, subject: subtitle || undefined, keywords: getDocumentKeywords(organization, options) },
+    defaultStyle: { fontSize: sizes.body / 2, color: `#${colors.body}` },
+    header: headerText || headerLogos
+      ? (currentPage, pageCount): Content => {
+          const text = fillPageNumbers(headerText, currentPage, pageCount)
+          const style = { fontSize: sizes.footer / 2, color: `#${colors.secondary}` }
+          if (!headerLogos || (differentFirstPage && currentPage === 1)) {
+            return { text, alignment: 'right', ...style, margin: [pt(margins.left), pt(margins.top) / 2 - 6, pt(margins.right), 0] }
+          }
+          // TechTorch's logo at the left margin; the header text and the client's logo at the right
+          const height = profile.logos.headerHeight
+          const company = createLogo(logos.company, height)
+          const client = createLogo(logos.client, height)
+          return {
+            columns: [
+              ...(company ? [company] : []),
+              { text: '', width: '*' },
+              { text, width: 'auto', margin: [0, (pt(height) - style.fontSize) / 2, 0, 0] },
+              ...(client ? [client] : []),
+            ],
+            columnGap: 6,
+            ...style,
+            margin: [pt(margins.left), pt(margins.top) / 2 - pt(height) / 2, pt(margins.right), 0],
+          }
+        }
+      : undefined,
+    footer: footerText || options.confidentiality
+      ? (currentPage, pageCount) => ({
+          stack: [
+            ...(options.confidentiality ? [{ text: options.confidentiality, bold: true }] : []),
+            { text: fillPageNumbers(footerText, currentPage, pageCount) },
+          ],
+          alignment: 'center',
+          fontSize: sizes.footer / 2,
+          color: `#${colors.secondary}`,
+          margin: [0, pt(margins.bottom) / 2 - (options.confidentiality ? 12 : 6), 0, 0],
+        })
+      : undefined,
+    watermark: options.draftWatermark ? { text: 'DRAFT', color: `#${colors.secondary}`, opacity: 0.15, bold: true } : undefined,
+    content: body,
+  }
+}
+
+// Rendered with pdfmake's browser build, which also runs in Node. It is loaded on first use to keep it
+// out of the page's main bundle.
+export async function createPdf(
+  content: ContentItem[],
+  docTitle: string,
+  subtitle: string,
+  organization: string,
+  author: string,
+  options: FormatOptions = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const definition = createPdfDefinition(content, docTitle, subtitle, organization, author, options)
+  
+  // Only the bundled Roboto font is available in the browser build, so profile fonts don't carry over
+  const pdfMake = (await import('pdfmake/build/pdfmake')).default
+  const vfs = (await import('pdfmake/build/vfs_fonts')).default
+  
+  return new Promise(resolve => pdfMake.createPdf(definition, undefined, undefined, vfs).getBuffer(buffer => resolve(new Uint8Array(buffer))))
+}
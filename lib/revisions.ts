@@ -0,0 +1,93 @@
+// Version, issue date, status and revision history of the document being formatted
+
+export type DocumentStatus = 'draft' | 'final'
+
+export const DOCUMENT_STATUS_LABELS: Record<DocumentStatus, string> = {
+  draft: 'Draft',
+  final: 'Final',
+}
+
+export function isDocumentStatus(value: string): value is DocumentStatus {
+  return Object.prototype.hasOwnProperty.call(DOCUMENT_STATUS_LABELS, value)
+}
+
+export interface Revision {
+  version: string
+  date: string // YYYY-MM-DD
+  author: string
+  changes: string
+}
+
+export interface DocumentVersion {
+  version: string // e.g. "1.2"
+  issueDate: string // YYYY-MM-DD; empty for the day the document is generated
+  status: DocumentStatus
+  revisions: Revision[] // Oldest first; empty for a first issue
+}
+
+export const DEFAULT_DOCUMENT_VERSION: DocumentVersion = {
+  version: '1.0',
+  issueDate: '',
+  status: 'final',
+  revisions: [],
+}
+
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+
+export function isValidDate(date: string): boolean {
+  const match = DATE_PATTERN.exec(date)
+  if (!match) return false
+  const parsed = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return parsed.getMonth() === Number(match[2]) - 1 && parsed.getDate() === Number(match[3])
+}
+
+// Local midnight of a YYYY-MM-DD date, so the day doesn't shift with the time zone; today when empty
+export function parseDate(date: string): Date {
+  const match = DATE_PATTERN.exec(date)
+  return match ? new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3])) : new Date()
+}
+
+export function toIsoDate(date: Date): string {
+  return [date.getFullYear(), date.getMonth() + 1, date.getDate()].map(n => String(n).padStart(2, '0')).join('-')
+}
+
+// "March 4, 2025"; anything other than a YYYY-MM-DD date is shown as entered
+export function formatRevisionDate(date: string): string {
+  if (date && !isValidDate(date)) return date
+  return parseDate(date).toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })
+}
+
+// Rows of the revision history table: the entered revisions, or a single initial issue of this version
+export function getRevisionHistory(documentVersion: DocumentVersion, author: string): Revision[] {
+  if (documentVersion.revisions.length > 0) return documentVersion.revisions
+  const date = documentVersion.issueDate || toIsoDate(new Date())
+  return [{ version: documentVersion.version, date, author, changes: 'Initial issue' }]
+}
+
+// Revisions from JSON: an array of { version, date, author, changes } objects, version required
+export function parseRevisions(json: string): Revision[] {
+  const parsed: unknown = JSON.parse(json)
+  if (!Array.isArray(parsed)) throw new Error('Revisions must be a JSON array')
+
+  return parsed.map((value, i) => {
+    const entry = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+    const field = (name: string) => (typeof entry[name] === 'string' ? (entry[name] as string).trim() : '')
+    const revision = { version: field('version'), date: field('date'), author: field('author'), changes: field('changes') }
+    if (!revision.version) throw new Error(`Revision ${i + 1} has no version`)
+    if (revision.date && !isValidDate(revision.date)) throw new Error(`Revision ${i + 1} has an invalid date (use YYYY-MM-DD)`)
+    return revision
+  })
+}
+
+// Form input cleaned up for export: blank version falls back to 1.0 and empty revision rows are dropped
+export function normalizeDocumentVersion(documentVersion: DocumentVersion): DocumentVersion {
+  const revisions = documentVersion.revisions
+    .map(revision => ({
+      version: revision.version.trim(),
+      date: revision.date,
+      author: revision.author.trim(),
+      changes: revision.changes.trim(),
+    }))
+    .filter(revision => revision.version || revision.changes)
+  return { ...documentVersion, version: documentVersion.version.trim() || DEFAULT_DOCUMENT_VERSION.version, revisions }
+}
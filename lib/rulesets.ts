@@ -0,0 +1,278 @@
+// Detection rulesets: the keywords, patterns and score weights the classifier uses
+
+// Detection rules the analyzers score lines with. Patterns are regular expression sources
+// (with optional flags) so rulesets can be stored, edited and shared as JSON.
+export interface PatternRule {
+  pattern: string
+  flags?: string
+}
+
+export interface WeightedPatternRule extends PatternRule {
+  weight: number // Score added when the pattern matches
+}
+
+export interface DetectionRuleset {
+  id: string
+  name: string
+  headerKeywords: string[] // Keywords that strongly indicate a section header
+  subheadingKeywords: string[] // Header openings that make a detected header an H2
+  headerKeywordScores: {
+    exact: number // The whole line is the keyword (returned as the probability)
+    colon: number // "Keyword: ..." (returned as the probability)
+    prefix: number // "Keyword ..."
+    mention: number // Keyword anywhere in the line
+  }
+  listIntroPatterns: PatternRule[] // Lines that introduce a list (next lines are likely bullets)
+  codePatterns: WeightedPatternRule[] // Code/technical content
+  bulletPatterns: WeightedPatternRule[] // Bullet-like content, even without bullet markers
+}
+
+// A ruleset with its patterns compiled, as the analyzers use it
+export interface CompiledRuleset {
+  headerKeywords: string[]
+  subheadingKeywords: string[]
+  headerKeywordScores: DetectionRuleset['headerKeywordScores']
+  listIntroPatterns: RegExp[]
+  codePatterns: { regex: RegExp; weight: number }[]
+  bulletPatterns: { regex: RegExp; weight: number }[]
+}
+
+// Shared by every preset: list intros and general-purpose code and bullet signals
+const COMMON_HEADER_KEYWORDS = [
+  'Introduction', 'Conclusion', 'Conclusions', 'Summary', 'Overview',
+  'Background', 'Methodology', 'Results', 'Discussion', 'Recommendations',
+  'Next Steps', 'Appendix', 'References', 'Glossary', 'Final Summary',
+  'Key Findings', 'Executive Summary', 'Scope', 'Objectives', 'Purpose',
+  'Requirements', 'Limitations', 'Future Work', 'Acknowledgments',
+]
+
+const COMMON_LIST_INTRO_PATTERNS: PatternRule[] = [
+  { pattern: 'the following[:\\s]', flags: 'i' },
+  { pattern: 'as follows[:\\s]', flags: 'i' },
+  { pattern: 'include[sd]?[:\\s]', flags: 'i' },
+  { pattern: 'such as[:\\s]', flags: 'i' },
+  { pattern: 'for example[:\\s]', flags: 'i' },
+  { pattern: 'listed below[:\\s]', flags: 'i' },
+  { pattern: 'steps? (are|were|is|was)[:\\s]', flags: 'i' },
+  { pattern: 'challenges? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: 'characteristics? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: 'reasons? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: 'benefits? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: 'features? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: 'requirements? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: 'components? (are|were|is|was|included)[:\\s]', flags: 'i' },
+  { pattern: ':[:\\s]*$' }, // Ends with colon
+]
+
+const COMMON_CODE_PATTERNS: WeightedPatternRule[] = [
+  { pattern: '^(SELECT|FROM|WHERE|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP)\\s', flags: 'i', weight: 30 },
+  { pattern: '\\b(Console\\.log|print\\(|println\\()', weight: 30 },
+  { pattern: '\\b(try\\s*\\{|catch\\s*\\(|finally\\s*\\{|if\\s*\\(|else\\s*\\{|for\\s*\\(|while\\s*\\()', weight: 30 },
+  { pattern: '\\b(new\\s+\\w+\\s*\\(|\\.get\\w+\\s*\\(|\\.set\\w+\\s*\\()', weight: 30 },
+  { pattern: '^\\s*\\}\\s*(catch|finally|else)?\\s*[\\{]?\\s*$', weight: 30 },
+  { pattern: '^\\s*\\/\\/.*$', weight: 30 }, // Comments
+  { pattern: '^\\s*\\/\\*.*\\*\\/\\s*$', weight: 30 }, // Block comments
+  { pattern: '^\\s*\\*\\s', weight: 30 }, // Javadoc style
+  { pattern: '=>\\s*\\{', weight: 30 }, // Arrow functions
+  { pattern: '\\bfunction\\s*\\(', weight: 30 },
+  { pattern: '\\bclass\\s+\\w+', weight: 30 },
+  { pattern: '\\bimport\\s+', weight: 30 },
+  { pattern: '\\bexport\\s+(default\\s+)?', weight: 30 },
+  { pattern: '^\\s*@\\w+', weight: 30 }, // Decorators/annotations
+]
+
+const COMMON_BULLET_PATTERNS: WeightedPatternRule[] = [
+  { pattern: '^[A-Z][a-z]+ing\\s', weight: 15 }, // Starts with gerund (e.g., "Identifying", "Processing")
+  { pattern: '^[A-Z][a-z]+ed\\s', weight: 15 }, // Starts with past tense
+  { pattern: '^(How|What|When|Where|Why|Which)\\s', flags: 'i', weight: 15 }, // Question words
+  { pattern: '^(The|A|An)\\s+\\w+\\s+(was|were|is|are|has|have)\\s', weight: 15 }, // Passive constructions
+  { pattern: '^(No|Missing|Incorrect|Invalid|Duplicate)\\s', flags: 'i', weight: 15 }, // Status indicators
+  { pattern: '^(Enable|Disable|Configure|Set|Get|Create|Delete|Update|Review)\\s', flags: 'i', weight: 15 }, // Action verbs
+]
+
+const DEFAULT_HEADER_KEYWORD_SCORES = { exact: 90, colon: 85, prefix: 20, mention: 10 }
+const DEFAULT_SUBHEADING_KEYWORDS = ['Example', 'Screen', 'Step', 'Phase', 'Part', 'Section', 'Case', 'Scenario']
+
+// The original rules, tuned on Salesforce implementation write-ups
+const SALESFORCE_RULESET: DetectionRuleset = {
+  id: 'salesforce',
+  name: 'Salesforce',
+  headerKeywords: [
+    ...COMMON_HEADER_KEYWORDS,
+    'Development Tools', 'Development tools', 'Major Focus Areas',
+    'Implementation', 'Architecture', 'Configuration',
+    'Troubleshooting', 'Best Practices', 'Prerequisites', 'Dependencies', 'Setup', 'Installation',
+    'Working Model', 'Initial Project Phase', 'Project Phase',
+  ],
+  subheadingKeywords: DEFAULT_SUBHEADING_KEYWORDS,
+  headerKeywordScores: DEFAULT_HEADER_KEYWORD_SCORES,
+  listIntroPatterns: COMMON_LIST_INTRO_PATTERNS,
+  codePatterns: [
+    ...COMMON_CODE_PATTERNS,
+    { pattern: '\\bSystem\\.debug\\b', weight: 30 },
+    { pattern: '^\\s*(Id|String|Integer|Boolean|List<|Map<|Set<|var|let|const)\\s+\\w+\\s*=', weight: 30 },
+    { pattern: '(__c|__r|__mdt|__e)\\b', weight: 30 }, // Custom fields, relationships, metadata and events
+    { pattern: '\\b(Database\\.|Schema\\.|Apex|SOQL|SOSL)\\b', flags: 'i', weight: 30 },
+    { pattern: '\\bSavepoint\\b|\\brollback\\b', flags: 'i', weight: 30 },
+    { pattern: '\\bDmlException\\b|\\bException\\b', weight: 30 },
+    { pattern: 'blng__|SBQQ__|npsp__', weight: 25 }, // Managed package namespaces
+  ],
+  bulletPatterns: COMMON_BULLET_PATTERNS,
+}
+
+const GENERAL_SOFTWARE_RULESET: DetectionRuleset = {
+  id: 'general-software',
+  name: 'General Software',
+  headerKeywords: [
+    ...COMMON_HEADER_KEYWORDS,
+    'Implementation', 'Architecture', 'Configuration', 'Troubleshooting', 'Best Practices',
+    'Prerequisites', 'Dependencies', 'Setup', 'Installation', 'Getting Started', 'Usage',
+    'API Reference', 'Testing', 'Deployment', 'Security', 'Performance', 'Data Model',
+    'Known Issues', 'Release Notes', 'Changelog', 'Design',
+  ],
+  subheadingKeywords: [...DEFAULT_SUBHEADING_KEYWORDS, 'Option', 'Endpoint', 'Module'],
+  headerKeywordScores: DEFAULT_HEADER_KEYWORD_SCORES,
+  listIntroPatterns: COMMON_LIST_INTRO_PATTERNS,
+  codePatterns: [
+    ...COMMON_CODE_PATTERNS,
+    { pattern: '^\\s*(var|let|const|int|long|double|bool|string|auto)\\s+\\w+\\s*=', weight: 30 },
+    { pattern: '^\\s*(def|fn|func|public|private|protected|static)\\s+\\w+', weight: 30 },
+    { pattern: '^\\s*(from\\s+\\S+\\s+import|package|using)\\s', weight: 30 },
+    { pattern: '^\\s*(\\$|#)\\s*(npm|yarn|git|docker|kubectl|curl|pip|cd|ls|sudo)\\b', weight: 30 }, // Shell prompts
+    { pattern: '^\\s*(return|throw|await|yield)\\b.*;?$', weight: 20 },
+    { pattern: '\\b(null|undefined|None|nil)\\b', weight: 10 },
+    { pattern: '\\b(FROM|WHERE|JOIN|GROUP BY|ORDER BY)\\b', weight: 15 }, // SQL clauses
+    { pattern: '^\\s*<\\/?[a-zA-Z][\\w:-]*(\\s[^>]*)?>', weight: 20 }, // Markup tags
+  ],
+  bulletPatterns: COMMON_BULLET_PATTERNS,
+}
+
+// Reports rarely contain code, so only strong code signals count
+const BUSINESS_REPORT_RULESET: DetectionRuleset = {
+  id: 'business-report',
+  name: 'Business Report',
+  headerKeywords: [
+    ...COMMON_HEADER_KEYWORDS,
+    'Financial Overview', 'Financial Summary', 'Market Analysis', 'Competitive Landscape',
+    'Risks', 'Risk Assessment', 'Opportunities', 'Strategy', 'Budget', 'Timeline', 'Milestones',
+    'Stakeholders', 'Key Metrics', 'Performance', 'Outlook', 'Action Items', 'Decisions',
+    'Goals', 'Approach', 'Findings', 'Analysis',
+  ],
+  subheadingKeywords: [...DEFAULT_SUBHEADING_KEYWORDS, 'Quarter', 'Q1', 'Q2', 'Q3', 'Q4', 'Region', 'Initiative'],
+  headerKeywordScores: DEFAULT_HEADER_KEYWORD_SCORES,
+  listIntroPatterns: [
+    ...COMMON_LIST_INTRO_PATTERNS,
+    { pattern: '(risks?|opportunities|recommendations?|actions?|priorities) (are|were|include[sd]?)[:\\s]', flags: 'i' },
+  ],
+  codePatterns: [
+    { pattern: '^(SELECT|INSERT|UPDATE|DELETE)\\s.+\\b(FROM|INTO|SET)\\b', flags: 'i', weight: 40 },
+    { pattern: '^\\s*\\}\\s*$', weight: 20 },
+  ],
+  bulletPatterns: [
+    ...COMMON_BULLET_PATTERNS,
+    { pattern: '^(Increase|Decrease|Reduce|Improve|Grow|Expand|Launch|Hire|Invest)\\s', flags: 'i', weight: 15 },
+    { pattern: '^[\\w\\s]{2,40}:\\s+\\S', weight: 10 }, // "Revenue: up 12%"
+    { pattern: '\\d+(\\.\\d+)?\\s?%', weight: 5 },
+  ],
+}
+
+export const BUILT_IN_RULESETS: DetectionRuleset[] = [SALESFORCE_RULESET, GENERAL_SOFTWARE_RULESET, BUSINESS_REPORT_RULESET]
+export const DEFAULT_RULESET = SALESFORCE_RULESET
+
+export function createRulesetId(): string {
+  return `ruleset-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// The analyzers test one compiled pattern against line after line, so the stateful global and
+// sticky flags would make a match on one line throw off the next; they're dropped
+function stripStatefulFlags(flags: string): string {
+  return flags.replace(/[gy]/g, '')
+}
+
+// Invalid patterns compile to null; the editor flags them and the analyzers skip them
+export function compilePattern(rule: PatternRule): RegExp | null {
+  try {
+    return new RegExp(rule.pattern, rule.flags && stripStatefulFlags(rule.flags))
+  } catch {
+    return null
+  }
+}
+
+export function compileRuleset(ruleset: DetectionRuleset): CompiledRuleset {
+  const compileWeighted = (rules: WeightedPatternRule[]) => rules.flatMap(rule => {
+    const regex = compilePattern(rule)
+    return regex ? [{ regex, weight: rule.weight }] : []
+  })
+  return {
+    headerKeywords: ruleset.headerKeywords,
+    subheadingKeywords: ruleset.subheadingKeywords,
+    headerKeywordScores: ruleset.headerKeywordScores,
+    listIntroPatterns: ruleset.listIntroPatterns.map(compilePattern).filter((r): r is RegExp => r !== null),
+    codePatterns: compileWeighted(ruleset.codePatterns),
+    bulletPatterns: compileWeighted(ruleset.bulletPatterns),
+  }
+}
+
+export const DEFAULT_COMPILED_RULESET = compileRuleset(DEFAULT_RULESET)
+
+// Parse an imported ruleset, filling anything missing from the default ruleset
+export function parseRuleset(json: string): DetectionRuleset {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error('Ruleset is not valid JSON')
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Ruleset must be a JSON object')
+  }
+  return normalizeRuleset(raw as Partial<DetectionRuleset>)
+}
+
+export function normalizeRuleset(raw: Partial<DetectionRuleset>): DetectionRuleset {
+  const base = DEFAULT_RULESET
+  
+  const keywords = (value: unknown, label: string, fallback: string[]): string[] => {
+    if (value === undefined) return fallback
+    if (!Array.isArray(value)) throw new Error(`Invalid value for ${label}: expected a list of keywords`)
+    return value.map(k => String(k).trim()).filter(k => k)
+  }
+  const score = (value: unknown, label: string): number => {
+    const n = Number(value)
+    if (!Number.isFinite(n)) throw new Error(`Invalid value for ${label}: "${value}"`)
+    return Math.round(n)
+  }
+  const pattern = (value: unknown, label: string): PatternRule => {
+    const rule = (value && typeof value === 'object' ? value : { pattern: value }) as Partial<PatternRule>
+    if (typeof rule.pattern !== 'string' || !rule.pattern) throw new Error(`Missing pattern for ${label}`)
+    const flags = rule.flags ? stripStatefulFlags(String(rule.flags)) : ''
+    const result: PatternRule = flags ? { pattern: rule.pattern, flags } : { pattern: rule.pattern }
+    if (!compilePattern(result)) throw new Error(`Invalid pattern for ${label}: "${rule.pattern}"`)
+    return result
+  }
+  const patterns = <T extends PatternRule>(value: unknown, label: string, fallback: T[], withWeight: boolean): T[] => {
+    if (value === undefined) return fallback
+    if (!Array.isArray(value)) throw new Error(`Invalid value for ${label}: expected a list of patterns`)
+    return value.map((v, i) => {
+      const rule = pattern(v, `${label}[${i}]`)
+      return (withWeight ? { ...rule, weight: score((v as WeightedPatternRule).weight ?? 30, `${label}[${i}].weight`) } : rule) as T
+    })
+  }
+  
+  const scoreSource = (raw.headerKeywordScores && typeof raw.headerKeywordScores === 'object' ? raw.headerKeywordScores : {}) as Record<string, unknown>
+  const headerKeywordScores = { ...base.headerKeywordScores }
+  for (const key of Object.keys(headerKeywordScores) as (keyof DetectionRuleset['headerKeywordScores'])[]) {
+    if (scoreSource[key] !== undefined) headerKeywordScores[key] = score(scoreSource[key], `headerKeywordScores.${key}`)
+  }
+  
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createRulesetId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Imported Ruleset',
+    headerKeywords: keywords(raw.headerKeywords, 'headerKeywords', base.headerKeywords),
+    subheadingKeywords: keywords(raw.subheadingKeywords, 'subheadingKeywords', base.subheadingKeywords),
+    headerKeywordScores,
+    listIntroPatterns: patterns(raw.listIntroPatterns, 'listIntroPatterns', base.listIntroPatterns, false),
+    codePatterns: patterns(raw.codePatterns, 'codePatterns', base.codePatterns, true),
+    bulletPatterns: patterns(raw.bulletPatterns, 'bulletPatterns', base.bulletPatterns, true),
+  }
+}
@@ -0,0 +1,261 @@
+// Style profiles: the fonts, colors, sizes and spacing every exporter brands documents with
+
+import { CalloutKind } from './callouts'
+
+export interface ParagraphSpacing {
+  before: number
+  after: number
+}
+
+// Title page logo placement; spread puts the TechTorch logo on the left and the client's on the right
+export type LogoAlignment = 'left' | 'center' | 'right' | 'spread'
+
+export const LOGO_ALIGNMENTS: LogoAlignment[] = ['left', 'center', 'right', 'spread']
+
+// Everything the document builder needs to brand a document.
+// Colors are 6-digit hex without '#', sizes are half-points, spacing and margins are twips.
+export interface StyleProfile {
+  id: string
+  name: string
+  fonts: {
+    heading: string
+    body: string
+    code: string
+  }
+  colors: {
+    title: string
+    heading1: string
+    heading2: string
+    heading3: string
+    body: string
+    secondary: string
+    link: string
+    tableHeaderBg: string
+    tableHeaderText: string
+    tableBorder: string
+  }
+  sizes: {
+    title: number
+    subtitle: number
+    organization: number
+    date: number
+    heading1: number
+    heading2: number
+    heading3: number
+    body: number
+    code: number
+    footer: number
+  }
+  spacing: {
+    heading1: ParagraphSpacing
+    heading2: ParagraphSpacing
+    heading3: ParagraphSpacing
+    paragraph: ParagraphSpacing
+    bullet: ParagraphSpacing
+    subBullet: ParagraphSpacing
+  }
+  margins: {
+    top: number
+    right: number
+    bottom: number
+    left: number
+  }
+  bullets: string[] // Glyph per nesting level
+  codeBlock: {
+    text: string
+    background: string
+    border: string
+    accent: string
+    accentWidth: number // Eighths of a point
+    keyword: string // Syntax highlighting colors
+    string: string
+    comment: string
+    number: string
+  }
+  callouts: Record<CalloutKind, string> // Accent color of each kind; the box is shaded with a tint of it
+  logos: {
+    height: number // On the title page; widths follow each logo's proportions
+    headerHeight: number // In the running header
+    alignment: LogoAlignment
+  }
+}
+
+export const DEFAULT_STYLE_PROFILE: StyleProfile = {
+  id: 'techtorch-standard',
+  name: 'TechTorch Standard',
+  fonts: {
+    heading: 'Aptos',
+    body: 'Aptos',
+    code: 'Consolas',
+  },
+  colors: {
+    title: '000000',
+    heading1: '1F4E79',
+    heading2: '2E75B6',
+    heading3: '404040',
+    body: '000000',
+    secondary: '666666',
+    link: '0563C1',
+    tableHeaderBg: '1F4E79',
+    tableHeaderText: 'FFFFFF',
+    tableBorder: 'CCCCCC',
+  },
+  sizes: {
+    title: 48,
+    subtitle: 28,
+    organization: 24,
+    date: 20,
+    heading1: 24,
+    heading2: 22,
+    heading3: 20,
+    body: 18,
+    code: 16,
+    footer: 18,
+  },
+  spacing: {
+    heading1: { before: 300, after: 120 },
+    heading2: { before: 240, after: 100 },
+    heading3: { before: 200, after: 80 },
+    paragraph: { before: 0, after: 160 },
+    bullet: { before: 0, after: 80 },
+    subBullet: { before: 0, after: 60 },
+  },
+  margins: {
+    top: 1440,
+    right: 1440,
+    bottom: 1440,
+    left: 1440,
+  },
+  bullets: ['\u2022', '\u25E6'],
+  codeBlock: {
+    text: '2E2E2E',
+    background: 'F5F5F5',
+    border: 'BFBFBF',
+    accent: '1F4E79',
+    accentWidth: 12,
+    keyword: '0000FF',
+    string: 'A31515',
+    comment: '008000',
+    number: '098658',
+  },
+  callouts: {
+    note: '2E75B6',
+    tip: '2E7D32',
+    important: '6A1B9A',
+    warning: 'B26A00',
+    caution: 'C62828',
+  },
+  logos: {
+    height: 1080,
+    headerHeight: 400,
+    alignment: 'spread',
+  },
+}
+
+export const BUILT_IN_PROFILES: StyleProfile[] = [DEFAULT_STYLE_PROFILE]
+
+// US Letter width in twips; the content width is what's left between the margins
+export const PAGE_WIDTH = 12240
+
+export function getContentWidth(profile: StyleProfile): number {
+  return PAGE_WIDTH - profile.margins.left - profile.margins.right
+}
+
+// Mix a color with white; amount 0 is white and 1 the color itself
+export function tintColor(hex: string, amount: number): string {
+  return [0, 2, 4]
+    .map(i => Math.round(255 - (255 - parseInt(hex.slice(i, i + 2), 16)) * amount).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()
+}
+
+// Label and accent bar in the kind's color, a light tint of it as shading and a stronger one as the border
+export function getCalloutColors(kind: CalloutKind, profile: StyleProfile): { accent: string; background: string; border: string } {
+  const accent = profile.callouts[kind]
+  return { accent, background: tintColor(accent, 0.08), border: tintColor(accent, 0.35) }
+}
+
+export function createProfileId(): string {
+  return `profile-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`
+}
+
+// Parse an imported profile, filling anything missing from the TechTorch standard
+export function parseStyleProfile(json: string): StyleProfile {
+  let raw: unknown
+  try {
+    raw = JSON.parse(json)
+  } catch {
+    throw new Error('Style profile is not valid JSON')
+  }
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('Style profile must be a JSON object')
+  }
+  return normalizeStyleProfile(raw as Partial<StyleProfile>)
+}
+
+export function normalizeStyleProfile(raw: Partial<StyleProfile>): StyleProfile {
+  const base = DEFAULT_STYLE_PROFILE
+  
+  const color = (value: unknown, label: string): string => {
+    const hex = String(value).replace(/^#/, '').toUpperCase()
+    if (!/^[0-9A-F]{6}$/.test(hex)) throw new Error(`Invalid color for ${label}: "${value}"`)
+    return hex
+  }
+  const measure = (value: unknown, label: string): number => {
+    const n = Number(value)
+    if (!Number.isFinite(n) || n < 0) throw new Error(`Invalid value for ${label}: "${value}"`)
+    return Math.round(n)
+  }
+  const text = (value: unknown, label: string): string => {
+    if (typeof value !== 'string' || !value.trim()) throw new Error(`Invalid value for ${label}: "${value}"`)
+    return value.trim()
+  }
+  
+  // Merge one section over its default, validating each field
+  function section<K extends string, V>(defaults: Record<K, V>, overrides: unknown, label: string, check: (v: unknown, l: string) => V): Record<K, V> {
+    const result = { ...defaults }
+    const source = (overrides && typeof overrides === 'object' ? overrides : {}) as Record<string, unknown>
+    for (const key of Object.keys(defaults) as K[]) {
+      if (source[key] !== undefined) result[key] = check(source[key], `${label}.${key}`)
+    }
+    return result
+  }
+  
+  const spacingSource = (raw.spacing && typeof raw.spacing === 'object' ? raw.spacing : {}) as Record<string, unknown>
+  const spacing = { ...base.spacing }
+  for (const key of Object.keys(base.spacing) as (keyof StyleProfile['spacing'])[]) {
+    spacing[key] = section(base.spacing[key], spacingSource[key], `spacing.${key}`, measure)
+  }
+  
+  const { accentWidth, ...codeColors } = base.codeBlock
+  
+  const logoSource = (raw.logos && typeof raw.logos === 'object' ? raw.logos : {}) as Record<string, unknown>
+  const { alignment: logoAlignment, ...logoSizes } = base.logos
+  if (logoSource.alignment !== undefined && !LOGO_ALIGNMENTS.includes(logoSource.alignment as LogoAlignment)) {
+    throw new Error(`Invalid value for logos.alignment: "${logoSource.alignment}"`)
+  }
+  
+  const bullets = Array.isArray(raw.bullets) && raw.bullets.length > 0
+    ? raw.bullets.map((b, i) => text(b, `bullets[${i}]`))
+    : base.bullets
+  
+  return {
+    id: typeof raw.id === 'string' && raw.id ? raw.id : createProfileId(),
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : 'Imported Profile',
+    fonts: section(base.fonts, raw.fonts, 'fonts', text),
+    colors: section(base.colors, raw.colors, 'colors', color),
+    sizes: section(base.sizes, raw.sizes, 'sizes', measure),
+    spacing,
+    margins: section(base.margins, raw.margins, 'margins', measure),
+    bullets,
+    codeBlock: {
+      ...section(codeColors, raw.codeBlock, 'codeBlock', color),
+      ...section({ accentWidth }, raw.codeBlock, 'codeBlock', measure),
+    },
+    callouts: section(base.callouts, raw.callouts, 'callouts', color),
+    logos: {
+      ...section(logoSizes, raw.logos, 'logos', measure),
+      alignment: (logoSource.alignment as LogoAlignment | undefined) || logoAlignment,
+    },
+  }
+}
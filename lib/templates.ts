@@ -0,0 +1,188 @@
+// Document templates: the title page, fixed sections and running header/footer around the body
+
+import { TableRowData, ContentItem, getItemText } from './content'
+import { DocumentVersion, getRevisionHistory, formatRevisionDate } from './revisions'
+
+// cover: centered block a third of the way down its own page (the TechTorch handoff look)
+// left: left-aligned block with an accent rule, on its own page
+// compact: left-aligned block at the top of the first page, with the document following directly
+export type TitlePageLayout = 'cover' | 'left' | 'compact'
+
+export type TemplateSection = 'table-of-contents' | 'revision-history' | 'sign-off' | 'glossary'
+
+export interface DocumentTemplate {
+  id: string
+  name: string
+  description: string
+  titlePage: TitlePageLayout
+  datePrefix: string // Before the issue month, e.g. "As of"
+  showVersion: boolean
+  frontMatter: TemplateSection[] // Between the title page and the body, in order
+  backMatter: TemplateSection[] // After the body, in order
+  closingLine: string // Last line of the document; empty for none
+  header: string // Running header; {title}, {subtitle} and {organization} are filled in. Empty for none.
+  footer: string // Running footer; same fields, plus {page} and {pages} for page numbers
+}
+
+const TECHNICAL_HANDOFF_TEMPLATE: DocumentTemplate = {
+  id: 'technical-handoff',
+  name: 'Technical Handoff',
+  description: 'Cover page, table of contents and the full body',
+  titlePage: 'cover',
+  datePrefix: 'As of',
+  showVersion: true,
+  frontMatter: ['table-of-contents'],
+  backMatter: [],
+  closingLine: 'End of Document',
+  header: '',
+  footer: '{page}',
+}
+
+const STATEMENT_OF_WORK_TEMPLATE: DocumentTemplate = {
+  id: 'statement-of-work',
+  name: 'Statement of Work',
+  description: 'Cover page, revision history and contents; closes with a sign-off table',
+  titlePage: 'cover',
+  datePrefix: 'Issued',
+  showVersion: true,
+  frontMatter: ['revision-history', 'table-of-contents'],
+  backMatter: ['sign-off'],
+  closingLine: '',
+  header: '{organization} – {title}',
+  footer: 'Page {page} of {pages}',
+}
+
+const RUNBOOK_TEMPLATE: DocumentTemplate = {
+  id: 'runbook',
+  name: 'Runbook',
+  description: 'Revision history and contents up front, glossary of acronyms at the end',
+  titlePage: 'left',
+  datePrefix: 'Last reviewed',
+  showVersion: true,
+  frontMatter: ['revision-history', 'table-of-contents'],
+  backMatter: ['glossary'],
+  closingLine: 'End of Runbook',
+  header: '{title}',
+  footer: 'Page {page} of {pages}',
+}
+
+const RELEASE_NOTES_TEMPLATE: DocumentTemplate = {
+  id: 'release-notes',
+  name: 'Release Notes',
+  description: 'Compact title block with the notes straight after it',
+  titlePage: 'compact',
+  datePrefix: 'Released',
+  showVersion: true,
+  frontMatter: [],
+  backMatter: [],
+  closingLine: '',
+  header: '{title}',
+  footer: '{page}',
+}
+
+const MEETING_MINUTES_TEMPLATE: DocumentTemplate = {
+  id: 'meeting-minutes',
+  name: 'Meeting Minutes',
+  description: 'Compact title block, the minutes and an approval table',
+  titlePage: 'compact',
+  datePrefix: 'Meeting of',
+  showVersion: false,
+  frontMatter: [],
+  backMatter: ['sign-off'],
+  closingLine: '',
+  header: '{organization} – {title}',
+  footer: 'Page {page} of {pages}',
+}
+
+export const BUILT_IN_TEMPLATES: DocumentTemplate[] = [
+  TECHNICAL_HANDOFF_TEMPLATE,
+  STATEMENT_OF_WORK_TEMPLATE,
+  RUNBOOK_TEMPLATE,
+  RELEASE_NOTES_TEMPLATE,
+  MEETING_MINUTES_TEMPLATE,
+]
+
+export const DEFAULT_TEMPLATE = TECHNICAL_HANDOFF_TEMPLATE
+
+// Entered revisions are always shown; templates without a revision history get one first
+export function getFrontMatter(template: DocumentTemplate, documentVersion: DocumentVersion): TemplateSection[] {
+  if (documentVersion.revisions.length === 0 || template.frontMatter.includes('revision-history')) return template.frontMatter
+  return ['revision-history', ...template.frontMatter]
+}
+
+// Header and footer text with the document fields filled in; page number fields are left for the exporter
+export function fillRunningText(text: string, fields: { title: string; subtitle: string; organization: string }): string {
+  return text
+    .replace(/\{title\}/g, () => fields.title) // Functions, so "$&" in a title isn't read as a pattern
+    .replace(/\{subtitle\}/g, () => fields.subtitle)
+    .replace(/\{organization\}/g, () => fields.organization)
+    .replace(/\s+[–—|-]\s*$|^\s*[–—|-]\s+/g, '') // Drop a dangling separator left by an empty field
+    .trim()
+}
+
+// A fixed section rendered as a titled table; the exporters style the title like the contents title
+export interface FixedSection {
+  title: string
+  rows: TableRowData[]
+}
+
+function createRow(cells: string[], header?: boolean): TableRowData {
+  return { header, cells: cells.map(text => ({ paragraphs: [[{ text }]] })) }
+}
+
+// Abbreviations of 2-6 capitals used in the text, for the glossary to define. Code and
+// all-caps lines (shouted headings, warnings) are skipped.
+function collectAcronyms(content: ContentItem[]): string[] {
+  const acronyms = new Set<string>()
+  for (const item of content) {
+    if (item.type === 'code_block' || item.type === 'image') continue
+    const texts = item.type === 'table'
+      ? (item.rows || []).flatMap(row => row.cells.flatMap(cell => cell.paragraphs.map(p => p.map(span => span.text).join(''))))
+      : [getItemText(item)]
+    for (const text of texts) {
+      if (text === text.toUpperCase()) continue
+      for (const match of text.match(/\b[A-Z][A-Z0-9]{1,5}\b/g) || []) {
+        if (/[A-Z].*[A-Z]/.test(match)) acronyms.add(match)
+      }
+    }
+  }
+  return Array.from(acronyms).sort()
+}
+
+// Table content for a fixed section; null when there is nothing to show (a glossary without acronyms)
+export function createFixedSection(
+  section: Exclude<TemplateSection, 'table-of-contents'>,
+  content: ContentItem[],
+  fields: { organization: string; author: string; documentVersion: DocumentVersion }
+): FixedSection | null {
+  switch (section) {
+    case 'revision-history':
+      return {
+        title: 'Revision History',
+        rows: [
+          createRow(['Version', 'Date', 'Author', 'Changes'], true),
+          ...getRevisionHistory(fields.documentVersion, fields.author).map(revision =>
+            createRow([revision.version, formatRevisionDate(revision.date), revision.author, revision.changes])
+          ),
+        ],
+      }
+
+    case 'sign-off': {
+      // One signature row per party; a TechTorch-internal document needs only one
+      const parties = Array.from(new Set([fields.organization, 'TechTorch Inc.'].filter(Boolean)))
+      return {
+        title: 'Sign-off',
+        rows: [createRow(['Name', 'Organization', 'Signature', 'Date'], true), ...parties.map(party => createRow(['', party, '', '']))],
+      }
+    }
+
+    case 'glossary': {
+      const acronyms = collectAcronyms(content)
+      if (acronyms.length === 0) return null
+      return {
+        title: 'Glossary',
+        rows: [createRow(['Term', 'Definition'], true), ...acronyms.map(acronym => createRow([acronym, '']))],
+      }
+    }
+  }
+}
@@ -0,0 +1,72 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { readFileSync } from 'node:fs'
+import path from 'node:path'
+import { POST as analyze } from '../app/api/analyze/route'
+import { POST as format } from '../app/api/format/route'
+import { MAX_UPLOAD_BYTES } from '../lib/api'
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures')
+
+function upload(fileName: string, data: string | Uint8Array<ArrayBuffer>, fields: Record<string, string> = {}): Request {
+  const form = new FormData()
+  form.append('file', new Blob([data]), fileName)
+  for (const [name, value] of Object.entries(fields)) form.append(name, value)
+  return new Request('http://localhost/api', { method: 'POST', body: form })
+}
+
+function fixture(name: string): string {
+  return readFileSync(path.join(FIXTURES_DIR, name), 'utf8')
+}
+
+test('analyze returns the content items and stats', async () => {
+  const response = await analyze(upload('guide.md', fixture('project-guide.md')))
+  assert.equal(response.status, 200)
+
+  const { content, stats } = await response.json()
+  assert.ok(content.length > 0)
+  assert.equal(stats.headings, content.filter((item: { type: string }) => item.type.startsWith('heading')).length)
+})
+
+test('format returns a .docx named after the title', async () => {
+  const response = await format(upload('notes.txt', fixture('salesforce-notes.txt'), { title: 'Release Notes', headingNumbers: 'true' }))
+  assert.equal(response.status, 200)
+  assert.equal(response.headers.get('content-disposition'), 'attachment; filename="Release_Notes_Formatted.docx"')
+
+  const body = new Uint8Array(await response.arrayBuffer())
+  assert.equal(String.fromCharCode(body[0], body[1]), 'PK')
+})
+
+test('format renders the other output formats', async () => {
+  const response = await format(upload('guide.md', fixture('project-guide.md'), { title: 'Guide', format: 'html' }))
+  assert.equal(response.status, 200)
+  assert.equal(response.headers.get('content-type'), 'text/html;charset=utf-8')
+  assert.equal(response.headers.get('content-disposition'), 'attachment; filename="Guide_Formatted.html"')
+  assert.match(await response.text(), /^<!DOCTYPE html>/)
+})
+
+test('errors are structured with a code and message', async () => {
+  const cases: [Request, number, string][] = [
+    [new Request('http://localhost/api', { method: 'POST', body: 'not a form' }), 400, 'invalid_request'],
+    [upload('report.pdf', '%PDF-1.7'), 415, 'unsupported_file_type'],
+    [upload('big.txt', new Uint8Array(MAX_UPLOAD_BYTES + 1)), 413, 'file_too_large'],
+    [upload('broken.docx', 'not a zip file'), 422, 'unreadable_document'],
+    [upload('empty.txt', '\n\n'), 422, 'no_content'],
+    [upload('notes.txt', 'text', { ruleset: 'no-such-ruleset' }), 400, 'invalid_ruleset'],
+    [upload('notes.txt', 'text', { ruleset: '{"codePatterns": [{"pattern": "(a+)+$"}]}' }), 400, 'invalid_ruleset'],
+    [upload('notes.txt', 'text', { template: 'press-release' }), 400, 'invalid_template'],
+    [upload('notes.txt', 'text', { revisions: '[{"date": "2025-01-10"}]' }), 400, 'invalid_version'],
+    [upload('notes.txt', 'text', { logo: 'logo.png' }), 400, 'invalid_logo'],
+    [upload('notes.txt', 'text', { format: 'rtf' }), 400, 'invalid_format'],
+    [upload('notes.txt', 'text', { tocDepth: '7' }), 400, 'invalid_request'],
+    [upload('notes.txt', 'text', { tocDepth: '2.5' }), 400, 'invalid_request'],
+  ]
+
+  for (const [request, status, code] of cases) {
+    const response = await format(request)
+    assert.equal(response.status, status, code)
+    const { error } = await response.json()
+    assert.equal(error.code, code)
+    assert.ok(error.message)
+  }
+})
@@ -0,0 +1,96 @@
+// Golden-file regression suite for the classifier. Every file in fixtures/ is classified and
+// compared with its .expected.json snapshot. After an intended heuristic change, review the
+// diff and refresh the snapshots with UPDATE_GOLDEN=1 npm test, which also creates the
+// snapshot for a new fixture.
+//
+// Fixtures named <name>.<ruleset-id>.<ext> are classified with that built-in ruleset.
+//
+// A snapshot records current output, not correct output. Entries known to be wrong are listed in
+// KNOWN_ISSUES so they aren't mistaken for the contract.
+
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { existsSync, readdirSync, readFileSync, writeFileSync } from 'node:fs'
+import path from 'node:path'
+import { ContentItem } from '../lib/content'
+import { BUILT_IN_RULESETS, DEFAULT_RULESET, compileRuleset } from '../lib/rulesets'
+import { classifyHtml, extractTextContent } from '../lib/classifier'
+
+const FIXTURES_DIR = path.join(__dirname, 'fixtures')
+const UPDATE = process.env.UPDATE_GOLDEN === '1'
+
+type ContentType = ContentItem['type']
+
+// Snapshot entries that are misclassified today: the item holding `text` (as its text or one of its
+// lines) comes out as `actual` but should be `expected`. A heuristic change that fixes one fails the
+// check below, so the entry gets deleted here along with the snapshot refresh.
+const KNOWN_ISSUES: Record<string, { text: string; actual: ContentType; expected: ContentType }[]> = {
+  'salesforce-notes.txt': [
+    // Steps numbered 1-3 straight after "1. Configuration" are read as section headings
+    { text: '1. Installed the managed package in the sandbox', actual: 'heading1', expected: 'numbered' },
+    { text: '2. Enabled usage-based pricing on the price book', actual: 'heading1', expected: 'numbered' },
+    { text: '3. Assigned permission sets to the finance team', actual: 'heading1', expected: 'numbered' },
+    { text: 'The invoice batch job was updated to skip cancelled orders.', actual: 'bullet', expected: 'paragraph' },
+    // The SOQL and Apex blocks merge across the prose between them
+    { text: 'The trigger handler now wraps the update in a savepoint.', actual: 'code_block', expected: 'paragraph' },
+    { text: 'Next Steps', actual: 'heading3', expected: 'heading1' },
+  ],
+}
+
+// The parts of an item a reviewer would notice; confidence scores are left out so small
+// weight changes don't churn every snapshot
+function summarize(item: ContentItem) {
+  const cellText = (paragraphs: { text: string }[][]) => paragraphs.map(p => p.map(s => s.text).join('')).join('\n')
+  return {
+    type: item.type,
+    ...(item.text && item.type !== 'table' ? { text: item.text } : {}),
+    ...(item.lines ? { lines: item.lines } : {}),
+    ...(item.language ? { language: item.language } : {}),
+    ...(item.number !== undefined ? { number: item.number } : {}),
+    ...(item.depth ? { depth: item.depth } : {}),
+    ...(item.callout ? { callout: item.callout } : {}),
+    ...(item.rows ? { rows: item.rows.map(row => ({ header: !!row.header, cells: row.cells.map(cell => cellText(cell.paragraphs)) })) } : {}),
+    ...(item.source ? { source: item.source } : {}),
+  }
+}
+
+function classifyFixture(file: string): ContentItem[] {
+  const input = readFileSync(path.join(FIXTURES_DIR, file), 'utf8')
+  const parts = file.split('.')
+  const ruleset = BUILT_IN_RULESETS.find(r => parts.length > 2 && r.id === parts[parts.length - 2]) || DEFAULT_RULESET
+  const rules = compileRuleset(ruleset)
+
+  switch (path.extname(file)) {
+    case '.html':
+      return classifyHtml(input, [], rules)
+    case '.md':
+      return extractTextContent(input, 'markdown', rules)
+    default:
+      return extractTextContent(input, 'text', rules)
+  }
+}
+
+const fixtures = readdirSync(FIXTURES_DIR).filter(file => !file.endsWith('.expected.json')).sort()
+
+for (const file of fixtures) {
+  test(`classifies ${file}`, () => {
+    const actual = classifyFixture(file).map(summarize)
+    const expectedPath = path.join(FIXTURES_DIR, `${file}.expected.json`)
+
+    if (UPDATE) {
+      writeFileSync(expectedPath, `${JSON.stringify(actual, null, 2)}\n`)
+      return
+    }
+    assert.ok(existsSync(expectedPath), `${file} has no snapshot; create it with UPDATE_GOLDEN=1 npm test and review it`)
+    assert.deepStrictEqual(actual, JSON.parse(readFileSync(expectedPath, 'utf8')))
+
+    for (const issue of KNOWN_ISSUES[file] || []) {
+      const item = actual.find(i => i.text === issue.text || i.lines?.includes(issue.text))
+      assert.equal(
+        item?.type,
+        issue.actual,
+        `"${issue.text}" is no longer ${issue.actual}; if it's now ${issue.expected}, remove it from KNOWN_ISSUES`
+      )
+    }
+  })
+}
@@ -0,0 +1,57 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { spawnSync } from 'node:child_process'
+import { copyFileSync, mkdirSync, mkdtempSync, readFileSync, readdirSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import path from 'node:path'
+import { ContentItem } from '../lib/content'
+import { extractTextContent } from '../lib/classifier'
+
+const CLI = path.join(__dirname, '..', 'cli', 'techtorch-format.ts')
+const FIXTURES_DIR = path.join(__dirname, 'fixtures')
+
+function runCli(args: string[]) {
+  return spawnSync(process.execPath, ['--import', 'tsx', CLI, ...args], { encoding: 'utf8', timeout: 60000 })
+}
+
+test('dumps the detected content items as JSON', () => {
+  const file = path.join(FIXTURES_DIR, 'nested-lists.txt')
+  const result = runCli([file, '--json', '-o', '-'])
+  assert.equal(result.status, 0, result.stderr)
+
+  const items: ContentItem[] = JSON.parse(result.stdout)
+  assert.deepStrictEqual(items, JSON.parse(JSON.stringify(extractTextContent(readFileSync(file, 'utf8'), 'text'))))
+})
+
+test('writes the other output formats', () => {
+  const result = runCli([path.join(FIXTURES_DIR, 'project-guide.md'), '--format', 'markdown', '--title', 'Guide', '-o', '-'])
+  assert.equal(result.status, 0, result.stderr)
+  assert.match(result.stdout, /^# Guide\n/)
+})
+
+test('formats every supported file found by a glob', () => {
+  const dir = mkdtempSync(path.join(tmpdir(), 'techtorch-cli-'))
+  mkdirSync(path.join(dir, 'docs'))
+  copyFileSync(path.join(FIXTURES_DIR, 'project-guide.md'), path.join(dir, 'docs', 'guide.md'))
+  copyFileSync(path.join(FIXTURES_DIR, 'salesforce-notes.txt'), path.join(dir, 'notes.txt'))
+  copyFileSync(path.join(FIXTURES_DIR, 'styled-document.html'), path.join(dir, 'page.html'))
+
+  const result = runCli([`${dir}/**/*.*`, '--title', 'Handbook', '-o', path.join(dir, 'out')])
+  assert.equal(result.status, 0, result.stderr)
+
+  const outputs = readdirSync(path.join(dir, 'out')).sort()
+  assert.deepStrictEqual(outputs, ['guide_Formatted.docx', 'notes_Formatted.docx'])
+  // .docx files are zip archives
+  assert.equal(readFileSync(path.join(dir, 'out', outputs[0])).subarray(0, 2).toString(), 'PK')
+  rmSync(dir, { recursive: true })
+})
+
+test('exits non-zero when a file fails or the arguments are wrong', () => {
+  const missing = runCli(['does-not-exist.docx'])
+  assert.equal(missing.status, 1)
+  assert.match(missing.stderr, /does-not-exist\.docx: not found/)
+
+  assert.equal(runCli(['--no-such-option']).status, 2)
+  assert.equal(runCli([path.join(FIXTURES_DIR, 'nested-lists.txt'), '--format', 'rtf']).status, 2)
+  assert.equal(runCli([]).status, 2)
+})
@@ -0,0 +1,166 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { Packer } from 'docx'
+import JSZip from 'jszip'
+import { ContentItem, fromBase64 } from '../lib/content'
+import { FormatOptions, createFormattedDocument } from '../lib/docx'
+import { BUILT_IN_TEMPLATES } from '../lib/templates'
+import { readLogo } from '../lib/logos'
+
+const CONTENT: ContentItem[] = [
+  { type: 'heading1', text: 'Overview' },
+  { type: 'paragraph', text: 'Intro' },
+  { type: 'heading2', text: 'Scope' },
+  { type: 'heading3', text: 'Out of scope' },
+  { type: 'heading1', text: 'Design' },
+]
+
+async function renderDocx(options: FormatOptions = {}, content = CONTENT): Promise<JSZip> {
+  const doc = createFormattedDocument(content, 'Title', '', 'TechTorch Inc.', '', options)
+  return JSZip.loadAsync(await Packer.toBuffer(doc))
+}
+
+async function renderDocumentXml(options: FormatOptions = {}, content = CONTENT): Promise<string> {
+  return (await renderDocx(options, content)).file('word/document.xml')!.async('string')
+}
+
+function template(id: string) {
+  return BUILT_IN_TEMPLATES.find(t => t.id === id)!
+}
+
+// The header or footer part a section references, e.g. the first-page header
+async function readSectionPart(zip: JSZip, kind: 'header' | 'footer', type: 'default' | 'first'): Promise<string> {
+  const xml = await zip.file('word/document.xml')!.async('string')
+  const target = new RegExp(`<w:${kind}Reference w:type="${type}" r:id="(rId\\d+)"`).exec(xml)![1]
+  const rels = await zip.file('word/_rels/document.xml.rels')!.async('string')
+  const file = new RegExp(`Id="${target}"[^>]*Target="([^"]+)"`).exec(rels)![1]
+  return zip.file(`word/${file}`)!.async('string')
+}
+
+function tocEntries(xml: string): string[] {
+  return Array.from(xml.matchAll(/<w:hyperlink[^>]*w:anchor="([^"]+)"[^>]*><w:r><w:t[^>]*>([^<]*)<\/w:t>/g), m => `${m[1]} ${m[2]}`)
+}
+
+test('fills the table of contents with links to bookmarked headings', async () => {
+  const xml = await renderDocumentXml({ headingNumbers: true })
+  assert.deepStrictEqual(tocEntries(xml), [
+    '_Toc00000001 1 Overview',
+    '_Toc00000002 1.1 Scope',
+    '_Toc00000003 1.1.1 Out of scope',
+    '_Toc00000004 2 Design',
+  ])
+  assert.match(xml, /TOC \\o &quot;1-3&quot;/)
+
+  const bookmarkIds = Array.from(xml.matchAll(/<w:bookmarkStart w:name="(_Toc\d+)" w:id="(\d+)"\/>/g), m => m[2])
+  assert.deepStrictEqual(bookmarkIds, ['1', '2', '3', '4'])
+})
+
+test('limits the table of contents depth and can leave it out', async () => {
+  assert.deepStrictEqual(tocEntries(await renderDocumentXml({ tocDepth: 1 })), ['_Toc00000001 Overview', '_Toc00000004 Design'])
+
+  const withoutToc = await renderDocumentXml({ tableOfContents: false })
+  assert.deepStrictEqual(tocEntries(withoutToc), [])
+  assert.doesNotMatch(withoutToc, /Table of Contents/)
+})
+
+test('templates add their fixed sections, closing line and running header', async () => {
+  const content: ContentItem[] = [...CONTENT, { type: 'paragraph', text: 'Restart the API gateway after each DNS change.' }]
+  const zip = await renderDocx({ template: template('runbook') }, content)
+  const xml = await zip.file('word/document.xml')!.async('string')
+
+  assert.match(xml, /Last reviewed/)
+  assert.ok(xml.indexOf('Revision History') < xml.indexOf('Table of Contents'))
+  assert.match(xml, /Glossary.*>API<.*>DNS</)
+  assert.match(xml, /End of Runbook/)
+  assert.doesNotMatch(xml, /End of Document/)
+
+  const headers = Object.keys(zip.files).filter(name => /^word\/header\d*\.xml$/.test(name))
+  assert.equal(headers.length, 1)
+  assert.match(await zip.file(headers[0])!.async('string'), />Title</)
+})
+
+test('compact templates keep the body on the title page', async () => {
+  const xml = await renderDocumentXml({ template: template('release-notes') })
+  assert.deepStrictEqual(tocEntries(xml), [])
+  assert.doesNotMatch(xml, /w:type="page"|End of Document/)
+  assert.match(xml, /Released/)
+})
+
+test('writes the version, status and revision history to the page and document properties', async () => {
+  const zip = await renderDocx({
+    documentVersion: {
+      version: '1.2',
+      issueDate: '2025-03-04',
+      status: 'draft',
+      revisions: [
+        { version: '1.0', date: '2025-01-10', author: 'Kornel', changes: 'Initial issue' },
+        { version: '1.2', date: '2025-03-04', author: 'Kornel', changes: 'Added the rollback steps' },
+      ],
+    },
+  })
+  const xml = await zip.file('word/document.xml')!.async('string')
+  assert.match(xml, /As of March 2025/)
+  assert.match(xml, /Draft Version 1\.2/)
+  // Entered revisions are listed even though the default template has no revision history
+  assert.ok(xml.indexOf('Revision History') < xml.indexOf('Table of Contents'))
+  assert.match(xml, /January 10, 2025.*Added the rollback steps/)
+
+  const core = await zip.file('docProps/core.xml')!.async('string')
+  assert.match(core, /<dc:title>Title<\/dc:title>/)
+  assert.match(core, /<cp:revision>2<\/cp:revision>/)
+  assert.match(core, /<cp:keywords>Draft, Version 1\.2, Technical Handoff, TechTorch Inc\.<\/cp:keywords>/)
+})
+
+test('adds running headers and footers, a confidentiality marking and a watermark, off the title page', async () => {
+  const zip = await renderDocx({
+    header: '{title} | {organization}',
+    footer: 'Page {page} of {pages}',
+    confidentiality: 'Confidential – Client Internal',
+    draftWatermark: true,
+  })
+  const xml = await zip.file('word/document.xml')!.async('string')
+  assert.match(xml, /<w:titlePg\/>/)
+  assert.match(xml, /Confidential – Client Internal/)
+
+  const header = await readSectionPart(zip, 'header', 'default')
+  assert.match(header, />Title \| TechTorch Inc\.</)
+  assert.match(header, /<v:textpath [^>]*string="DRAFT"/)
+  const firstHeader = await readSectionPart(zip, 'header', 'first')
+  assert.doesNotMatch(firstHeader, /Title \|/)
+  assert.match(firstHeader, /string="DRAFT"/)
+
+  const footer = await readSectionPart(zip, 'footer', 'default')
+  assert.match(footer, /Confidential – Client Internal.*Page .*PAGE.* of .*NUMPAGES/)
+  const firstFooter = await readSectionPart(zip, 'footer', 'first')
+  assert.match(firstFooter, /Confidential – Client Internal/)
+  assert.doesNotMatch(firstFooter, /PAGE/)
+})
+
+test('places the logos on the title page and in the running header', async () => {
+  const svg = new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg" width="240" height="80"><rect width="240" height="80"/></svg>')
+  const png = fromBase64('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAQAAAC1HAwCAAAAC0lEQVR42mNkYAAAAAYAAjCB0C8AAAAASUVORK5CYII=')
+  const logos = { company: readLogo(svg, 'techtorch.svg'), client: readLogo(png, 'client.png') }
+  assert.deepEqual([logos.company.image.width, logos.company.image.height], [240, 80])
+  assert.throws(() => readLogo(png, 'client.gif'), /PNG, JPEG or SVG/)
+
+  const zip = await renderDocx({ logos, headerLogos: true })
+  const xml = await zip.file('word/document.xml')!.async('string')
+  assert.ok(xml.indexOf('descr="TechTorch logo"') < xml.indexOf('>Title<'))
+  assert.match(xml, /descr="TechTorch Inc\. logo"/)
+  assert.match(xml, /svgBlip/)
+  assert.ok(Object.keys(zip.files).some(name => /^word\/media\/.*\.svg$/.test(name)))
+
+  assert.match(await readSectionPart(zip, 'header', 'default'), /descr="TechTorch logo".*descr="TechTorch Inc\. logo"/)
+  assert.doesNotMatch(xml, /<w:headerReference w:type="first"/) // Nothing in the title page header
+})
+
+test('sets callouts in a shaded box with their label in the accent color', async () => {
+  const xml = await renderDocumentXml({}, [
+    { type: 'paragraph', text: 'Intro' },
+    { type: 'callout', callout: 'warning', text: 'Do not deploy during the sync.' },
+  ])
+  assert.match(xml, /<w:shd [^>]*w:fill="F9F3EB"/)
+  assert.match(xml, /<w:left [^>]*w:color="B26A00"/)
+  assert.match(xml, /<w:color w:val="B26A00"\/>.*?<w:t xml:space="preserve">Warning: <\/w:t>/)
+  assert.match(xml, />Do not deploy during the sync\.</)
+})
@@ -0,0 +1,64 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import type { Content, DynamicContent } from 'pdfmake/interfaces'
+import { ContentItem } from '../lib/content'
+import { createHtmlDocument } from '../lib/html'
+import { createMarkdownDocument } from '../lib/markdown-export'
+import { createPdf, createPdfDefinition } from '../lib/pdf'
+
+const CONTENT: ContentItem[] = [
+  { type: 'heading1', text: 'Overview' },
+  { type: 'paragraph', text: 'Uses <Account> fields', runs: [{ text: 'Uses ' }, { text: '<Account>', bold: true }, { text: ' fields' }] },
+  { type: 'bullet', text: 'Orders' },
+  { type: 'bullet', text: 'Order products', depth: 1 },
+  { type: 'heading2', text: 'Data' },
+  { type: 'code_block', lines: ['SELECT Id FROM Account'], language: 'sql' },
+  { type: 'callout', callout: 'warning', text: 'Do not deploy during the sync.' },
+  { type: 'table', rows: [{ header: true, cells: [{ paragraphs: [[{ text: 'Object' }]] }] }, { cells: [{ paragraphs: [[{ text: 'Order' }]] }] }] },
+]
+
+test('html links the table of contents to the headings and escapes the text', () => {
+  const html = createHtmlDocument(CONTENT, 'Design & Build', '', 'TechTorch Inc.', '', { headingNumbers: true })
+  assert.match(html, /<title>Design &amp; Build<\/title>/)
+  assert.match(html, /<a href="#section-1">1 Overview<\/a>/)
+  assert.match(html, /<h1 id="section-1">1 Overview<\/h1>/)
+  assert.match(html, /Uses <strong>&lt;Account&gt;<\/strong> fields/)
+  assert.match(html, /<ul>\s*<li>Orders\s*<ul>\s*<li>Order products<\/li>/)
+  assert.match(html, /<aside class="callout callout-warning"><span class="callout-label">Warning:<\/span> Do not deploy/)
+  assert.match(html, /<th><p>Object<\/p><\/th>/)
+})
+
+test('markdown nests the content under the title and keeps lists, code, callouts and tables', () => {
+  const markdown = createMarkdownDocument(CONTENT, 'Design', 'Billing', 'TechTorch Inc.', '')
+  assert.match(markdown, /^# Design\n\n\*Billing\*\n/)
+  assert.match(markdown, /\n## Overview\n/)
+  assert.match(markdown, /\nUses \*\*\\<Account\\>\*\* fields\n/)
+  assert.match(markdown, /\n- Orders\n  - Order products\n/)
+  assert.match(markdown, /\n```sql\nSELECT Id FROM Account\n```\n/)
+  assert.match(markdown, /\n> \[!WARNING\]\n> Do not deploy during the sync\.\n/)
+  assert.match(markdown, /\n\| Object \|\n\| --- \|\n\| Order \|\n/)
+})
+
+test('pdf fills in the running footer per page and leaves it off the title page', () => {
+  const definition = createPdfDefinition(CONTENT, 'Design', '', 'TechTorch Inc.', '', {
+    footer: 'Page {page} of {pages}',
+    confidentiality: 'Confidential',
+    draftWatermark: true,
+  })
+  assert.equal(definition.info?.title, 'Design')
+  assert.deepEqual(definition.watermark, { text: 'DRAFT', color: '#666666', opacity: 0.15, bold: true })
+
+  const footer = definition.footer as DynamicContent
+  const pageText = (page: number) => JSON.stringify(footer(page, 3, { width: 612, height: 792, orientation: 'portrait' }))
+  assert.match(pageText(2), /"Page 2 of 3"/)
+  assert.doesNotMatch(pageText(1), /Page 1/)
+  assert.match(pageText(1), /"Confidential"/)
+
+  const body = JSON.stringify(definition.content as Content)
+  assert.match(body, /"text":"Warning: ","bold":true,"color":"#B26A00"/)
+})
+
+test('pdf renders to a PDF file', async () => {
+  const pdf = await createPdf(CONTENT, 'Design', '', 'TechTorch Inc.', '')
+  assert.equal(new TextDecoder().decode(pdf.subarray(0, 5)), '%PDF-')
+})
@@ -0,0 +1,95 @@
+import { test } from 'node:test'
+import assert from 'node:assert/strict'
+import { ContentItem, renumberLists } from '../lib/content'
+import { extractTextContent } from '../lib/classifier'
+import { findHeadingIssues, numberHeadings, repairHeadingLevels, stripHeadingNumber } from '../lib/headings'
+import { DEFAULT_RULESET, compileRuleset, parseRuleset } from '../lib/rulesets'
+import { fillRunningText } from '../lib/templates'
+
+test('renumbers each list level separately and restarts nested levels under a new parent', () => {
+  const content: ContentItem[] = [
+    { type: 'numbered', text: 'a', number: 4 },
+    { type: 'numbered', text: 'b', number: 9, depth: 1 },
+    { type: 'numbered', text: 'c', number: 9, depth: 1 },
+    { type: 'numbered', text: 'd', number: 1 },
+    { type: 'numbered', text: 'e', number: 7, depth: 1 },
+    { type: 'paragraph', text: 'break' },
+    { type: 'numbered', text: 'f', number: 3 },
+  ]
+  assert.deepStrictEqual(renumberLists(content).map(item => item.number), [1, 1, 2, 2, 1, undefined, 1])
+})
+
+test('repairs skipped heading levels', () => {
+  const content: ContentItem[] = [
+    { type: 'heading2', text: 'Starts too deep' },
+    { type: 'heading3', text: 'Child' },
+    { type: 'heading1', text: 'Top' },
+    { type: 'heading3', text: 'Skips a level' },
+  ]
+  assert.deepStrictEqual(repairHeadingLevels(content).map(item => item.type), ['heading1', 'heading2', 'heading1', 'heading2'])
+})
+
+test('leaves skipped heading levels in parsed documents for the review to flag', () => {
+  const content = extractTextContent('# Design\n\n### Data Model\n\nObjects in use.\n', 'markdown')
+  assert.deepStrictEqual(content.map(item => item.type), ['heading1', 'heading3', 'paragraph'])
+  assert.deepStrictEqual(findHeadingIssues(content).map(issue => [issue.index, issue.repairable]), [[1, true]])
+})
+
+test('flags repeated and out-of-order section numbers', () => {
+  const content: ContentItem[] = [
+    { type: 'heading1', text: '1. Intro' },
+    { type: 'heading1', text: '3. Design' },
+    { type: 'heading2', text: '3.1 Data' },
+    { type: 'heading2', text: '3.1 Again' },
+  ]
+  assert.deepStrictEqual(findHeadingIssues(content).map(issue => [issue.index, issue.message]), [
+    [1, 'Section 3 is out of order (expected 1.1 or 2)'],
+    [3, 'Section number 3.1 is used more than once'],
+  ])
+})
+
+test('replaces typed heading numbers with outline numbers', () => {
+  const content: ContentItem[] = [
+    { type: 'heading1', text: '4. Overview' },
+    { type: 'heading2', text: 'Scope' },
+    { type: 'heading2', text: 'iv. Goals' },
+    { type: 'heading1', text: 'Design' },
+  ]
+  assert.deepStrictEqual(numberHeadings(content).map(item => item.text), ['1 Overview', '1.1 Scope', '1.2 Goals', '2 Design'])
+})
+
+test('keeps years and counts that open a heading as part of its title', () => {
+  const content: ContentItem[] = [
+    { type: 'heading1', text: '2024 Roadmap' },
+    { type: 'heading2', text: '3 Key Risks' },
+    { type: 'heading2', text: '2.1 Mitigations' },
+  ]
+  assert.deepStrictEqual(content.map(item => stripHeadingNumber(item).text), ['2024 Roadmap', '3 Key Risks', 'Mitigations'])
+  assert.deepStrictEqual(numberHeadings(content).map(item => item.text), ['1 2024 Roadmap', '1.1 3 Key Risks', '1.2 Mitigations'])
+  assert.deepStrictEqual(findHeadingIssues(content.slice(0, 2)), [])
+})
+
+test('fills missing ruleset fields from the default ruleset', () => {
+  const ruleset = parseRuleset('{"name": "Minimal", "headerKeywords": ["Findings"]}')
+  assert.equal(ruleset.name, 'Minimal')
+  assert.deepStrictEqual(ruleset.headerKeywords, ['Findings'])
+  assert.deepStrictEqual(ruleset.codePatterns, DEFAULT_RULESET.codePatterns)
+})
+
+test('rejects rulesets with invalid patterns', () => {
+  assert.throws(() => parseRuleset('{"codePatterns": [{"pattern": "(unclosed", "weight": 30}]}'), /Invalid pattern for codePatterns\[0\]/)
+})
+
+test('drops the global and sticky flags from imported patterns', () => {
+  const ruleset = parseRuleset('{"listIntroPatterns": [{"pattern": "steps:", "flags": "gi"}, {"pattern": "below:", "flags": "y"}]}')
+  assert.deepStrictEqual(ruleset.listIntroPatterns, [{ pattern: 'steps:', flags: 'i' }, { pattern: 'below:' }])
+
+  const [regex] = compileRuleset(ruleset).listIntroPatterns
+  assert.ok(regex.test('The steps:') && regex.test('Setup steps:'))
+})
+
+test('fills running text fields literally, dollar signs included', () => {
+  const fields = { title: "Costs $& Budget $' x", subtitle: '', organization: 'Acme $1' }
+  assert.equal(fillRunningText('{title} | {subtitle}', fields), "Costs $& Budget $' x")
+  assert.equal(fillRunningText('{organization} – {title}', fields), "Acme $1 – Costs $& Budget $' x")
+})